@@ -1,7 +1,10 @@
 import { serve } from "bun"
-import { generateObject } from 'ai'
+import { generateObject, streamObject, type LanguageModel } from 'ai'
 import { anthropic } from '@ai-sdk/anthropic'
+import { openai } from '@ai-sdk/openai'
 import { z } from 'zod'
+import { promptUsesForecastContext, renderPrompt, selectPromptVersion } from './prompts'
+import { describeIssuesForRetry, ReportValidationError, validateSurfReport, type ValidationIssue } from './validation'
 
 const surfReportSchema = z.object({
   conditionsAnalysis: z.string().min(120).describe("First paragraph: Current wave, wind, and tide conditions with analysis"),
@@ -16,6 +19,149 @@ const surfReportSchema = z.object({
   })
 })
 
+// Model backends are tried in order until one returns a valid report. A chain is
+// comma-separated "provider:model" entries, e.g. "anthropic:claude-haiku-4-5-20251001,openai:gpt-4o-mini".
+// LLM_CHAIN sets the default, LLM_CHAIN_OVERRIDES maps location slugs to their own chain
+// (JSON, e.g. {"rockaway-beach":"openai:gpt-4o-mini"}), and a request can pass `llm` to override both.
+const DEFAULT_LLM_CHAIN = 'anthropic:claude-haiku-4-5-20251001,openai:gpt-4o-mini'
+
+const LLM_PROVIDERS: Record<string, { apiKeyEnv: string; model: (id: string) => LanguageModel }> = {
+  anthropic: { apiKeyEnv: 'ANTHROPIC_API_KEY', model: id => anthropic(id) },
+  openai: { apiKeyEnv: 'OPENAI_API_KEY', model: id => openai(id) },
+}
+
+interface LlmBackend {
+  provider: string;
+  model: string;
+}
+
+interface LlmAttempt extends LlmBackend {
+  error: string;
+}
+
+function parseLlmChain(spec: string): LlmBackend[] {
+  const chain: LlmBackend[] = []
+  for (const entry of spec.split(',').map(e => e.trim()).filter(Boolean)) {
+    const sep = entry.indexOf(':')
+    const provider = sep === -1 ? entry : entry.slice(0, sep)
+    const model = sep === -1 ? '' : entry.slice(sep + 1)
+    if (!LLM_PROVIDERS[provider] || !model) {
+      console.warn(`⚠️ Ignoring LLM chain entry "${entry}" — expected provider:model with provider one of ${Object.keys(LLM_PROVIDERS).join(', ')}`)
+      continue
+    }
+    chain.push({ provider, model })
+  }
+  return chain
+}
+
+function getLlmChainOverrides(): Record<string, string> {
+  if (!process.env.LLM_CHAIN_OVERRIDES) return {}
+  try {
+    return JSON.parse(process.env.LLM_CHAIN_OVERRIDES)
+  } catch (error) {
+    console.warn('⚠️ LLM_CHAIN_OVERRIDES is not valid JSON, ignoring it')
+    return {}
+  }
+}
+
+function resolveLlmChain(slug: string, requested?: string | null): LlmBackend[] {
+  const spec = requested || getLlmChainOverrides()[slug] || process.env.LLM_CHAIN || DEFAULT_LLM_CHAIN
+  return parseLlmChain(spec)
+}
+
+class LlmChainError extends Error {
+  constructor(public attempts: LlmAttempt[]) {
+    super(attempts.length > 0
+      ? `All LLM backends failed: ${attempts.map(a => `${a.provider}:${a.model} (${a.error})`).join('; ')}`
+      : 'No usable LLM backend configured')
+    this.name = 'LlmChainError'
+  }
+}
+
+type SurfReportObject = z.infer<typeof surfReportSchema>
+
+// Called with the report text so far each time the model streams more of it
+type PartialReportHandler = (text: string) => void
+
+async function streamReportObject(model: LanguageModel, prompt: string, onPartial: PartialReportHandler): Promise<SurfReportObject> {
+  const result = streamObject({
+    model,
+    schema: surfReportSchema,
+    prompt,
+    temperature: 0.6,
+    maxTokens: 800,
+  })
+
+  for await (const partial of result.partialObjectStream) {
+    const text = [partial.conditionsAnalysis, partial.recommendationsAndOutlook].filter(Boolean).join('\n\n')
+    if (text) onPartial(text)
+  }
+
+  // Rejects if the stream failed or the finished object doesn't match the schema
+  return result.object
+}
+
+// Backends without an API key are skipped rather than called, so a partially configured
+// deployment still falls through to whatever it does have. With onPartial the report is
+// streamed; a backend that fails part way is replaced by the next one's text from the start.
+async function generateWithLlmChain(prompt: string, chain: LlmBackend[], onPartial?: PartialReportHandler) {
+  const attempts: LlmAttempt[] = []
+
+  for (const backend of chain) {
+    const provider = LLM_PROVIDERS[backend.provider]!
+    if (!process.env[provider.apiKeyEnv]) {
+      attempts.push({ ...backend, error: `${provider.apiKeyEnv} not set` })
+      continue
+    }
+
+    try {
+      const model = provider.model(backend.model)
+      const object = onPartial
+        ? await streamReportObject(model, prompt, onPartial)
+        : (await generateObject({
+          model,
+          schema: surfReportSchema,
+          prompt,
+          temperature: 0.6,
+          maxTokens: 800,
+        })).object
+      return { aiResponse: object, backend, attempts }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(`⚠️ ${backend.provider}:${backend.model} failed, trying next backend:`, message)
+      attempts.push({ ...backend, error: message })
+    }
+  }
+
+  throw new LlmChainError(attempts)
+}
+
+// A draft that fails validation is regenerated once with its issues fed back before
+// giving up and serving the template report
+const MAX_GENERATION_ATTEMPTS = 2
+
+async function generateValidatedReport(basePrompt: string, chain: LlmBackend[], surfData: any, ctx: LocationContext, onPartial?: PartialReportHandler) {
+  const rejected: ValidationIssue[][] = []
+  const failedBackends: LlmAttempt[] = []
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const lastIssues = rejected[rejected.length - 1]
+    const prompt = lastIssues ? basePrompt + describeIssuesForRetry(lastIssues) : basePrompt
+    const generated = await generateWithLlmChain(prompt, chain, onPartial)
+    failedBackends.push(...generated.attempts)
+
+    const issues = validateSurfReport(generated.aiResponse, surfData, ctx.bestSpots, ctx.locationName)
+    if (issues.length === 0) {
+      return { ...generated, attempts: failedBackends, rejected }
+    }
+
+    console.warn(`⚠️ Report draft ${attempt} for ${ctx.locationName} failed validation:`, issues.map(i => i.message).join('; '))
+    rejected.push(issues)
+  }
+
+  throw new ReportValidationError(rejected)
+}
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
@@ -91,6 +237,39 @@ function getCompassDirection(degrees: number): string {
   return directions[index]
 }
 
+interface SwellComponent {
+  height_ft: number;
+  period_sec: number;
+  direction_deg: number;
+  direction_compass: string;
+  direction_description?: string;
+}
+
+interface SwellComponents {
+  primary_swell: SwellComponent | null;
+  secondary_swell: SwellComponent | null;
+  wind_wave: SwellComponent | null;
+}
+
+function describeSwellComponent(label: string, c: SwellComponent | null): string {
+  if (!c) return `• ${label}: none resolved by the model`
+  return `• ${label}: ${c.height_ft}ft @ ${c.period_sec}s from ${getCompassDirection(c.direction_deg)}${c.direction_description ? ` — ${c.direction_description}` : ''}`
+}
+
+// Wind chop taller than the groundswell underneath it is what the surfer actually feels
+function getSeaStateNote(components: SwellComponents | undefined): string | null {
+  if (!components) return null
+  const { primary_swell: swell, wind_wave: chop } = components
+  if (swell && chop && chop.height_ft > swell.height_ft) {
+    return 'Wind waves are taller than the groundswell — expect a disorganised, choppy sea state with the swell buried underneath.'
+  }
+  if (swell && chop && chop.height_ft >= swell.height_ft * 0.5) {
+    return 'Noticeable wind chop on top of the swell — rideable, but faces will be bumpy.'
+  }
+  if (swell) return 'Swell-dominated sea state — little wind chop layered on top.'
+  return null
+}
+
 function getWaveQuality(height: number, period: number): string {
   if (period >= 12) return 'Quality groundswell with good power and long rides.'
   if (period >= 8) return 'Decent swell with moderate power and rideable waves.'
@@ -118,11 +297,26 @@ function getBoardTypeRecommendation(waveHeight: number): string {
   return 'Longboard recommended'
 }
 
-function getFallbackTimingAdvice(tideState: string, viability: SessionViability): string {
-  if (!viability.viable) {
-    if (viability.reason === 'lightning') return 'Wait for the storm to clear completely before considering paddling out'
-    return 'Check back tomorrow for an accurate read on conditions'
+// Best upcoming daylight windows, computed by the Next app's /api/session-windows
+interface SessionWindow {
+  start: string;
+  end: string;
+  label: string;
+  hours: number;
+  peak_score: number;
+  peak_time: string;
+  average_score: number;
+  limiting_factor: 'wind' | 'tide' | 'size';
+  description: string;
+}
+
+// timingAdvice is the Next app's summary of the session windows, used as-is when present
+function getFallbackTimingAdvice(tideState: string, viability: SessionViability, timingAdvice?: string | null): string {
+  if (!viability.viable && viability.reason === 'lightning') {
+    return 'Wait for the storm to clear completely before considering paddling out'
   }
+  if (timingAdvice) return timingAdvice
+  if (!viability.viable) return 'Check back tomorrow for an accurate read on conditions'
   if (tideState.includes('Rising')) return 'Session now — rising tide tends to clean up the waves'
   if (tideState.includes('Falling')) return 'Go sooner rather than later — falling tide can get shallow over the sandbars'
   if (tideState.includes('Low')) return 'Wait for the tide to come up a bit for better shape'
@@ -130,15 +324,40 @@ function getFallbackTimingAdvice(tideState: string, viability: SessionViability)
 }
 
 interface LocationContext {
+  slug: string;
   locationName: string;
   localKnowledge: string;
   voiceDescriptor: string;
   bestSpots: string[];
   lat: number;
   timezone: string;
+  sessionWindows?: SessionWindow[] | null;
+  timingAdvice?: string | null;
+  // Per-request LLM chain override, same format as LLM_CHAIN
+  llmChain?: string | null;
+  // Per-request prompt version, bypassing any experiment
+  promptVersion?: string | null;
+}
+
+// Request body shared by both /generate-surf-report endpoints
+function locationContextFromBody(body: any): LocationContext {
+  const { surfData, localKnowledge, voiceDescriptor, bestSpots, locationName, lat, timezone, sessionWindows, timingAdvice, llm, promptVersion } = body
+  return {
+    slug: surfData.locationSlug ?? surfData.location ?? '',
+    locationName: locationName ?? surfData.location ?? 'Unknown',
+    localKnowledge: localKnowledge ?? '',
+    voiceDescriptor: voiceDescriptor ?? 'experienced surf forecaster',
+    bestSpots: bestSpots ?? [],
+    lat: lat ?? 30,
+    timezone: timezone ?? 'America/New_York',
+    sessionWindows: sessionWindows ?? null,
+    timingAdvice: timingAdvice ?? null,
+    llmChain: llm ?? null,
+    promptVersion: promptVersion ?? null,
+  }
 }
 
-function createDetailedSurfPrompt(surfData: any, ctx: LocationContext): string {
+function createDetailedSurfPrompt(surfData: any, ctx: LocationContext, version: string): string {
   const windMph = Math.round(surfData.details.wind_speed_kts * 1.15078)
   const swellDirection = getCompassDirection(surfData.details.swell_direction_deg)
   const windDirection = getCompassDirection(surfData.details.wind_direction_deg)
@@ -151,6 +370,10 @@ function createDetailedSurfPrompt(surfData: any, ctx: LocationContext): string {
       ? 'NOT SURFABLE — thunderstorm/lightning activity'
       : `NOT SURFABLE NOW — nighttime (light returns ~${viability.riseStr})`
 
+  // Versions written before swell components and session windows get the conditions they were written for
+  const forecastContext = promptUsesForecastContext(version)
+  const hasWindows = !!ctx.sessionWindows && ctx.sessionWindows.length > 0
+
   const viabilityInstructions = viability.viable ? '' : viability.reason === 'lightning'
     ? `
 IMPORTANT — SAFETY OVERRIDE:
@@ -158,13 +381,20 @@ There is active lightning or thunderstorm activity. This overrides everything el
 - Lead paragraph 1 with a clear, direct safety warning: the ocean is UNSAFE during electrical activity. No hedging.
 - Paragraph 2 should describe what conditions will look like once the storm clears, and when to check back.
 - timingAdvice must tell the user to wait until the storm passes before considering the water.`
-    : `
+    : !forecastContext ? `
 IMPORTANT — TIMING OVERRIDE:
 It is currently nighttime. Nobody surfs in the dark.
 - Do NOT attempt to describe or predict tomorrow's conditions — you have no forecast data, only a current snapshot that may not reflect what morning will bring.
 - Paragraph 1: acknowledge it's night and surfing isn't happening. If the user seems curious about conditions, you may briefly describe the CURRENT snapshot (not as a prediction).
 - Paragraph 2: keep it short. Tell them to come back tomorrow when conditions can be properly assessed. No guessing, no false optimism.
 - timingAdvice: "Check back tomorrow" — nothing more specific.`
+    : `
+IMPORTANT — TIMING OVERRIDE:
+It is currently nighttime. Nobody surfs in the dark.
+- Do NOT attempt to describe or predict tomorrow's conditions beyond the session windows listed above — the current snapshot may not reflect what morning will bring.
+- Paragraph 1: acknowledge it's night and surfing isn't happening. If the user seems curious about conditions, you may briefly describe the CURRENT snapshot (not as a prediction).
+- Paragraph 2: keep it short. ${hasWindows ? 'Point them at the best upcoming session window and what is holding it back.' : 'Tell them to come back tomorrow when conditions can be properly assessed.'} No guessing, no false optimism.
+- timingAdvice: ${hasWindows ? 'name the best upcoming session window — nothing more speculative.' : '"Check back tomorrow" — nothing more specific.'}`
 
   const nextTideStr = (() => {
     const nh = surfData.tides?.next_high
@@ -180,15 +410,26 @@ It is currently nighttime. Nobody surfs in the dark.
     return null
   })()
 
-  return `You are a ${ctx.voiceDescriptor}. Write a 2-paragraph surf report for ${ctx.locationName}. Be honest — don't oversell poor surf.
-
-LOCAL KNOWLEDGE FOR THIS SPOT:
-${ctx.localKnowledge}
-
-RECOMMENDED SPOTS:
-${ctx.bestSpots.join(', ')}
-
-CURRENT CONDITIONS:
+  const components: SwellComponents | undefined = surfData.details.swell_components
+  const qualityPeriod = forecastContext
+    ? components?.primary_swell?.period_sec ?? surfData.details.wave_period_sec
+    : surfData.details.wave_period_sec
+  const seaStateNote = getSeaStateNote(components)
+  const swellComponentsStr = components
+    ? `
+SWELL COMPONENTS (the combined figures above blend these together):
+${describeSwellComponent('Primary Swell', components.primary_swell)}
+${describeSwellComponent('Secondary Swell', components.secondary_swell)}
+${describeSwellComponent('Wind Waves', components.wind_wave)}${seaStateNote ? `
+• Sea State: ${seaStateNote}` : ''}
+`
+    : ''
+
+  const sessionWindowsStr = hasWindows
+    ? ctx.sessionWindows!.map((w, i) => `${i + 1}. ${w.description}`).join('\n')
+    : 'No surfable daylight window found in the next 72 hours'
+
+  const conditionsBlock = `CURRENT CONDITIONS:
 • Wave Height: ${surfData.details.wave_height_ft} feet
 • Wave Period: ${surfData.details.wave_period_sec} seconds
 • Swell Direction: ${surfData.details.swell_direction_deg}° (${swellDirection})
@@ -197,44 +438,39 @@ CURRENT CONDITIONS:
 • Water Temp: ${surfData.weather.water_temperature_f}°F
 • Weather: ${surfData.weather.weather_description}
 • Overall Score: ${surfData.score}/100
-• Wave Quality: ${getWaveQuality(surfData.details.wave_height_ft, surfData.details.wave_period_sec)}
+• Wave Quality: ${getWaveQuality(surfData.details.wave_height_ft, qualityPeriod)}
 • Tide Context: ${getTideContext(surfData.details.tide_state)}
 • Local Time: ${localTime}
-• Session Status: ${viabilityNote}
-${viabilityInstructions}
-NOTE: Do not restate raw figures verbatim in prose (wave height, period, temperature, wind speed, etc.) — interpret and contextualise what they mean for the surf experience instead.
-
-WRITE EXACTLY 2 PARAGRAPHS:
-
-**Paragraph 1 - Conditions Analysis** (3-4 sentences):
-Synthesise what the wave height, period, swell direction, and wind actually mean for surf quality at this specific spot — the character of the waves, whether they'll have power or be mushy, onshore/offshore effect. Use your local knowledge of this break to make it specific and accurate. Weave in how the tide and water temp affect the experience.
-
-**Paragraph 2 - Context & Vibe** (3-4 sentences):
-Give the reasoning and local context: why certain spots work or don't in these conditions, what the crowd/vibe will be like, the best window in the day and why, and an honest bottom-line take on whether it's worth paddling out.
-
-TONE: ${ctx.voiceDescriptor}. Use some surf slang but keep it readable.`
+• Session Status: ${viabilityNote}${forecastContext ? `
+${swellComponentsStr}
+BEST SESSION WINDOWS (next 72h, from the hourly forecast — "held back by" is the factor costing the most points):
+${sessionWindowsStr}` : ''}`
+
+  return renderPrompt(version, {
+    voiceDescriptor: ctx.voiceDescriptor,
+    locationName: ctx.locationName,
+    localKnowledge: ctx.localKnowledge,
+    bestSpots: ctx.bestSpots,
+    conditionsBlock,
+    viabilityInstructions,
+  })
 }
 
-async function generateDetailedSurfReport(surfData: any, ctx: LocationContext) {
+async function generateDetailedSurfReport(surfData: any, ctx: LocationContext, onPartial?: PartialReportHandler) {
   console.log(`🤖 Generating surf report for ${ctx.locationName}...`)
 
+  const promptAssignment = selectPromptVersion(ctx.slug, ctx.promptVersion)
+
   try {
-    const prompt = createDetailedSurfPrompt(surfData, ctx)
-
-    const { object: aiResponse } = await generateObject({
-      model: anthropic('claude-haiku-4-5-20251001'),
-      schema: surfReportSchema,
-      prompt,
-      temperature: 0.6,
-      maxTokens: 800,
-    })
+    const prompt = createDetailedSurfPrompt(surfData, ctx, promptAssignment.version)
+    const { aiResponse, backend, attempts, rejected } = await generateValidatedReport(prompt, resolveLlmChain(ctx.slug, ctx.llmChain), surfData, ctx, onPartial)
 
     const fullReport = [
       aiResponse.conditionsAnalysis,
       aiResponse.recommendationsAndOutlook
     ].join('\n\n')
 
-    console.log(`✅ AI generated report for ${ctx.locationName} (${fullReport.split(' ').length} words)`)
+    console.log(`✅ ${backend.provider}:${backend.model} generated report for ${ctx.locationName} (${fullReport.split(' ').length} words)`)
 
     return {
       id: `surf_${ctx.locationName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`,
@@ -248,11 +484,13 @@ async function generateDetailedSurfReport(surfData: any, ctx: LocationContext) {
         wind_direction_deg: surfData.details.wind_direction_deg,
         tide_state: surfData.details.tide_state,
         weather_description: surfData.weather.weather_description,
+        weather_code: surfData.weather.weather_code,
         surfability_score: surfData.score,
         swell_direction_deg: surfData.details.swell_direction_deg,
         swell_direction_compass: surfData.details.swell_direction_compass,
         swell_direction_text: surfData.details.swell_direction_text,
         swell_direction_description: surfData.details.swell_direction_description,
+        swell_components: surfData.details.swell_components,
         wind_direction_compass: surfData.details.wind_direction_compass,
         wind_direction_text: surfData.details.wind_direction_text,
         wind_direction_description: surfData.details.wind_direction_description,
@@ -271,12 +509,18 @@ async function generateDetailedSurfReport(surfData: any, ctx: LocationContext) {
       },
       cached_until: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(),
       generation_meta: {
-        backend: 'bun-multi-location',
-        model: 'claude-haiku-4-5-20251001',
+        backend: backend.provider,
+        model: backend.model,
+        failed_backends: attempts,
         report_length: fullReport.length,
         word_count: fullReport.split(' ').length,
         paragraphs: 2,
-        prompt_version: '3.0',
+        prompt_version: promptAssignment.version,
+        prompt_arm: promptAssignment.arm,
+        validation: {
+          attempts: rejected.length + 1,
+          rejected_issues: rejected,
+        },
       }
     }
 
@@ -300,11 +544,13 @@ async function generateDetailedSurfReport(surfData: any, ctx: LocationContext) {
         wind_direction_deg: surfData.details.wind_direction_deg,
         tide_state: surfData.details.tide_state,
         weather_description: surfData.weather.weather_description,
+        weather_code: surfData.weather.weather_code,
         surfability_score: surfData.score,
         swell_direction_deg: surfData.details.swell_direction_deg,
         swell_direction_compass: surfData.details.swell_direction_compass,
         swell_direction_text: surfData.details.swell_direction_text,
         swell_direction_description: surfData.details.swell_direction_description,
+        swell_components: surfData.details.swell_components,
         wind_direction_compass: surfData.details.wind_direction_compass,
         wind_direction_text: surfData.details.wind_direction_text,
         wind_direction_description: surfData.details.wind_direction_description,
@@ -321,16 +567,22 @@ async function generateDetailedSurfReport(surfData: any, ctx: LocationContext) {
           : undefined,
         skill_level: surfData.score >= 65 ? 'intermediate' : 'beginner',
         best_spots: ctx.bestSpots,
-        timing_advice: getFallbackTimingAdvice(surfData.details.tide_state, viability)
+        timing_advice: getFallbackTimingAdvice(surfData.details.tide_state, viability, ctx.timingAdvice)
       },
       cached_until: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(),
       generation_meta: {
         backend: 'bun-fallback',
         model: 'hardcoded',
+        failed_backends: error instanceof LlmChainError ? error.attempts : [],
         report_length: fallbackReport.length,
         word_count: fallbackReport.split(' ').length,
         paragraphs: 2,
-        prompt_version: '3.0',
+        // Template text, not a prompt — kept out of version comparisons
+        prompt_version: null,
+        prompt_arm: null,
+        validation: error instanceof ReportValidationError
+          ? { attempts: error.rejected.length, rejected_issues: error.rejected }
+          : null,
       }
     }
   }
@@ -387,14 +639,15 @@ async function handleRequest(req: Request): Promise<Response> {
       timestamp: new Date().toISOString(),
       runtime: 'Bun',
       version: Bun.version,
-      features: ['multi-location', 'detailed-reports', 'session-viability', 'local-knowledge']
+      features: ['multi-location', 'detailed-reports', 'session-viability', 'local-knowledge', 'session-windows', 'llm-fallback-chain'],
+      llm_chain: resolveLlmChain('').map(b => `${b.provider}:${b.model}`)
     })
   }
 
   if (method === 'POST' && url.pathname === '/generate-surf-report') {
     try {
       const body = await req.json()
-      const { surfData, apiKey, localKnowledge, voiceDescriptor, bestSpots, locationName, lat, timezone } = body
+      const { surfData, apiKey } = body
 
       if (apiKey !== process.env.API_SECRET) {
         return jsonResponse({ error: 'Unauthorized' }, 401)
@@ -403,16 +656,7 @@ async function handleRequest(req: Request): Promise<Response> {
         return jsonResponse({ error: 'Missing surf data' }, 400)
       }
 
-      const ctx: LocationContext = {
-        locationName: locationName ?? surfData.location ?? 'Unknown',
-        localKnowledge: localKnowledge ?? '',
-        voiceDescriptor: voiceDescriptor ?? 'experienced surf forecaster',
-        bestSpots: bestSpots ?? [],
-        lat: lat ?? 30,
-        timezone: timezone ?? 'America/New_York',
-      }
-
-      const report = await generateDetailedSurfReport(surfData, ctx)
+      const report = await generateDetailedSurfReport(surfData, locationContextFromBody(body))
 
       return jsonResponse({
         success: true,
@@ -430,12 +674,51 @@ async function handleRequest(req: Request): Promise<Response> {
     }
   }
 
+  // Same request as /generate-surf-report, answered as newline-delimited JSON:
+  // {"type":"partial","text":...} while the model writes, then one {"type":"report","report":...}
+  // with the finished (validated, or fallback) report, or {"type":"error"} if generation blew up
+  if (method === 'POST' && url.pathname === '/generate-surf-report/stream') {
+    let body: any
+    try {
+      body = await req.json()
+    } catch (error) {
+      return jsonResponse({ error: 'Body must be JSON' }, 400)
+    }
+
+    if (body.apiKey !== process.env.API_SECRET) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+    if (!body.surfData) {
+      return jsonResponse({ error: 'Missing surf data' }, 400)
+    }
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: object) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+        try {
+          const report = await generateDetailedSurfReport(body.surfData, locationContextFromBody(body), text => send({ type: 'partial', text }))
+          send({ type: 'report', report })
+        } catch (error) {
+          console.error('❌ Streaming generate endpoint failed:', error)
+          send({ type: 'error', error: error instanceof Error ? error.message : String(error) })
+        }
+        controller.close()
+      }
+    })
+
+    return new Response(stream, {
+      headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store', ...corsHeaders }
+    })
+  }
+
   if (method === 'POST' && url.pathname === '/cron/generate-fresh-report') {
     try {
       const body = await req.json()
       const {
         cronSecret, vercelUrl,
-        locationSlug, locationName, localKnowledge, voiceDescriptor, bestSpots, lat, timezone
+        locationSlug, locationName, localKnowledge, voiceDescriptor, bestSpots, lat, timezone, llm, promptVersion,
+        jobKey
       } = body
 
       if (cronSecret !== process.env.CRON_SECRET) {
@@ -444,12 +727,15 @@ async function handleRequest(req: Request): Promise<Response> {
 
       const slug = locationSlug ?? 'st-augustine'
       const ctx: LocationContext = {
+        slug,
         locationName: locationName ?? slug,
         localKnowledge: localKnowledge ?? '',
         voiceDescriptor: voiceDescriptor ?? 'experienced surf forecaster',
         bestSpots: bestSpots ?? [],
         lat: lat ?? 30,
         timezone: timezone ?? 'America/New_York',
+        llmChain: llm ?? null,
+        promptVersion: promptVersion ?? null,
       }
 
       console.log(`🌊 Fetching surf data for ${ctx.locationName}...`)
@@ -462,27 +748,38 @@ async function handleRequest(req: Request): Promise<Response> {
       const surfData = await surfDataResponse.json()
       console.log(`📊 Got surf data for ${ctx.locationName}: ${surfData.details?.wave_height_ft}ft`)
 
-      const report = await generateDetailedSurfReport(surfData, ctx)
-      console.log(`✅ Report generated: ${report.id} (${report.generation_meta.word_count} words)`)
-
+      // Best-effort: without windows the report falls back to generic tide timing
       try {
-        const saveResponse = await fetch(`${vercelUrl}/api/admin/save-report`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cronSecret}`
-          },
-          body: JSON.stringify({ report })
-        })
-
-        if (!saveResponse.ok) {
-          console.warn(`⚠️ Save failed for ${ctx.locationName}:`, saveResponse.status)
+        const windowsResponse = await fetch(`${vercelUrl}/api/session-windows?location=${slug}`)
+        if (windowsResponse.ok) {
+          const { windows, timing_advice } = await windowsResponse.json() as { windows: SessionWindow[]; timing_advice: string }
+          ctx.sessionWindows = windows
+          ctx.timingAdvice = timing_advice
         } else {
-          console.log(`✅ Saved report for ${ctx.locationName}`)
+          console.warn(`⚠️ Session windows failed for ${ctx.locationName}:`, windowsResponse.status)
         }
-      } catch (saveError) {
-        console.warn(`⚠️ Save error for ${ctx.locationName}:`, saveError)
+      } catch (windowsError) {
+        console.warn(`⚠️ Session windows error for ${ctx.locationName}:`, windowsError)
+      }
+
+      const report = await generateDetailedSurfReport(surfData, ctx)
+      console.log(`✅ Report generated: ${report.id} (${report.generation_meta.word_count} words)`)
+
+      // A report that isn't saved is a failed job, so the caller's retry kicks in.
+      // jobKey lets the save mark the job done even if this response never arrives.
+      const saveResponse = await fetch(`${vercelUrl}/api/admin/save-report`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${cronSecret}`
+        },
+        body: JSON.stringify({ report, jobKey: jobKey ?? null })
+      })
+
+      if (!saveResponse.ok) {
+        throw new Error(`Saving report for ${ctx.locationName} failed: ${saveResponse.status}`)
       }
+      console.log(`✅ Saved report for ${ctx.locationName}`)
 
       return jsonResponse({
         success: true,
@@ -493,9 +790,12 @@ async function handleRequest(req: Request): Promise<Response> {
           ai_report_generated: true,
           new_report_id: report.id,
           location: ctx.locationName,
+          llm_backend: `${report.generation_meta.backend}:${report.generation_meta.model}`,
+          prompt_version: report.generation_meta.prompt_version,
           report_quality: {
             word_count: report.generation_meta.word_count,
             paragraphs: report.generation_meta.paragraphs,
+            validation_attempts: report.generation_meta.validation?.attempts ?? null,
             length: report.generation_meta.report_length,
           }
         }
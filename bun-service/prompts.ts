@@ -0,0 +1,163 @@
+// Versioned report prompt templates. Published versions are never edited in place —
+// change wording by adding a new version, so reports stay comparable by prompt_version.
+
+export interface PromptInput {
+  voiceDescriptor: string;
+  locationName: string;
+  localKnowledge: string;
+  bestSpots: string[];
+  // CURRENT CONDITIONS, plus SWELL COMPONENTS and BEST SESSION WINDOWS for templates with forecastContext
+  conditionsBlock: string;
+  // Night / lightning overrides; empty when a session is viable
+  viabilityInstructions: string;
+}
+
+export interface PromptTemplate {
+  // Whether the conditions block carries swell components and session windows, and
+  // the night override points at them. 3.0 was written before either existed.
+  forecastContext: boolean;
+  render: (input: PromptInput) => string;
+}
+
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  '3.0': {
+    forecastContext: false,
+    render: input => `You are a ${input.voiceDescriptor}. Write a 2-paragraph surf report for ${input.locationName}. Be honest — don't oversell poor surf.
+
+LOCAL KNOWLEDGE FOR THIS SPOT:
+${input.localKnowledge}
+
+RECOMMENDED SPOTS:
+${input.bestSpots.join(', ')}
+
+${input.conditionsBlock}
+${input.viabilityInstructions}
+NOTE: Do not restate raw figures verbatim in prose (wave height, period, temperature, wind speed, etc.) — interpret and contextualise what they mean for the surf experience instead.
+
+WRITE EXACTLY 2 PARAGRAPHS:
+
+**Paragraph 1 - Conditions Analysis** (3-4 sentences):
+Synthesise what the wave height, period, swell direction, and wind actually mean for surf quality at this specific spot — the character of the waves, whether they'll have power or be mushy, onshore/offshore effect. Use your local knowledge of this break to make it specific and accurate. Weave in how the tide and water temp affect the experience.
+
+**Paragraph 2 - Context & Vibe** (3-4 sentences):
+Give the reasoning and local context: why certain spots work or don't in these conditions, what the crowd/vibe will be like, the best window in the day and why, and an honest bottom-line take on whether it's worth paddling out.
+
+TONE: ${input.voiceDescriptor}. Use some surf slang but keep it readable.`,
+  },
+
+  // 3.0 plus swell components and session windows
+  '3.1': {
+    forecastContext: true,
+    render: input => `You are a ${input.voiceDescriptor}. Write a 2-paragraph surf report for ${input.locationName}. Be honest — don't oversell poor surf.
+
+LOCAL KNOWLEDGE FOR THIS SPOT:
+${input.localKnowledge}
+
+RECOMMENDED SPOTS:
+${input.bestSpots.join(', ')}
+
+${input.conditionsBlock}
+${input.viabilityInstructions}
+NOTE: Do not restate raw figures verbatim in prose (wave height, period, temperature, wind speed, etc.) — interpret and contextualise what they mean for the surf experience instead.
+
+WRITE EXACTLY 2 PARAGRAPHS:
+
+**Paragraph 1 - Conditions Analysis** (3-4 sentences):
+Synthesise what the wave height, period, swell direction, and wind actually mean for surf quality at this specific spot — the character of the waves, whether they'll have power or be mushy, onshore/offshore effect. When swell components are given, reason about each separately: what the groundswell brings, whether a secondary swell adds peaks or cross-up, and how much the local wind chop is degrading it. Use your local knowledge of this break to make it specific and accurate. Weave in how the tide and water temp affect the experience.
+
+**Paragraph 2 - Context & Vibe** (3-4 sentences):
+Give the reasoning and local context: why certain spots work or don't in these conditions, what the crowd/vibe will be like, the best session window from the list above and why, and an honest bottom-line take on whether it's worth paddling out.
+
+timingAdvice must be grounded in the BEST SESSION WINDOWS list — name the window (day and time range) rather than giving generic tide advice.
+
+TONE: ${input.voiceDescriptor}. Use some surf slang but keep it readable.`,
+  },
+
+  // Candidate: verdict-first, tighter paragraphs
+  '3.2': {
+    forecastContext: true,
+    render: input => `You are a ${input.voiceDescriptor}. Write a 2-paragraph surf report for ${input.locationName}. Be honest — don't oversell poor surf.
+
+LOCAL KNOWLEDGE FOR THIS SPOT:
+${input.localKnowledge}
+
+RECOMMENDED SPOTS:
+${input.bestSpots.join(', ')}
+
+${input.conditionsBlock}
+${input.viabilityInstructions}
+NOTE: Do not restate raw figures verbatim in prose (wave height, period, temperature, wind speed, etc.) — interpret and contextualise what they mean for the surf experience instead.
+
+WRITE EXACTLY 2 PARAGRAPHS:
+
+**Paragraph 1 - Verdict & Conditions** (2-3 sentences):
+Open with a one-line verdict — is it worth paddling out, and for whom. Then synthesise what the wave height, period, swell direction, and wind actually mean for surf quality at this specific spot — the character of the waves, whether they'll have power or be mushy, onshore/offshore effect. When swell components are given, reason about each separately: what the groundswell brings, whether a secondary swell adds peaks or cross-up, and how much the local wind chop is degrading it. Use your local knowledge of this break to make it specific and accurate. Weave in how the tide and water temp affect the experience.
+
+**Paragraph 2 - Where & When** (2-3 sentences):
+Give the reasoning and local context: why certain spots work or don't in these conditions, what the crowd/vibe will be like, the best session window from the list above and why, and an honest bottom-line take on whether it's worth paddling out.
+
+timingAdvice must be grounded in the BEST SESSION WINDOWS list — name the window (day and time range) rather than giving generic tide advice.
+
+TONE: ${input.voiceDescriptor}. Use some surf slang but keep it readable.`,
+  },
+}
+
+export const STABLE_PROMPT_VERSION = '3.1'
+
+export interface PromptExperiment {
+  candidate: string;
+  // Share of generations (0–100) that get the candidate instead of the stable version
+  percent: number;
+}
+
+export interface PromptAssignment {
+  version: string;
+  arm: 'stable' | 'candidate' | 'requested';
+}
+
+function getStableVersion(): string {
+  const configured = process.env.PROMPT_VERSION
+  if (configured && PROMPT_TEMPLATES[configured]) return configured
+  if (configured) console.warn(`⚠️ Unknown PROMPT_VERSION "${configured}", using ${STABLE_PROMPT_VERSION}`)
+  return STABLE_PROMPT_VERSION
+}
+
+// PROMPT_EXPERIMENTS is JSON keyed by location slug, with "*" applying to every
+// location without its own entry, e.g. {"*":{"candidate":"3.2","percent":10}}
+function getExperiment(slug: string): PromptExperiment | null {
+  if (!process.env.PROMPT_EXPERIMENTS) return null
+  try {
+    const experiments = JSON.parse(process.env.PROMPT_EXPERIMENTS) as Record<string, PromptExperiment>
+    const experiment = experiments[slug] ?? experiments['*']
+    if (!experiment || !PROMPT_TEMPLATES[experiment.candidate]) return null
+    return experiment
+  } catch (error) {
+    console.warn('⚠️ PROMPT_EXPERIMENTS is not valid JSON, ignoring it')
+    return null
+  }
+}
+
+export function selectPromptVersion(slug: string, requested?: string | null, random = Math.random): PromptAssignment {
+  if (requested && PROMPT_TEMPLATES[requested]) return { version: requested, arm: 'requested' }
+
+  const stable = getStableVersion()
+  const experiment = getExperiment(slug)
+  if (experiment && experiment.candidate !== stable && random() * 100 < experiment.percent) {
+    return { version: experiment.candidate, arm: 'candidate' }
+  }
+  return { version: stable, arm: 'stable' }
+}
+
+function getTemplate(version: string): PromptTemplate {
+  const template = PROMPT_TEMPLATES[version]
+  if (!template) throw new Error(`Unknown prompt version ${version}`)
+  return template
+}
+
+export function promptUsesForecastContext(version: string): boolean {
+  return getTemplate(version).forecastContext
+}
+
+export function renderPrompt(version: string, input: PromptInput): string {
+  return getTemplate(version).render(input)
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import { describeIssuesForRetry, validateSurfReport, type ReportDraft } from './validation'
+
+const SPOTS = ['Vilano Beach', 'St. Augustine Pier', 'Crescent Beach']
+
+const CLEAN_FIRST = 'Waist-high lines are rolling in from the east with a bit of push behind them. The wind is light from the west, so faces should stay clean through the morning.'
+const CLEAN_SECOND = 'Head to Vilano Beach for the most defined peaks, or the pier if it gets crowded. A longboard will make the most of it, and a spring suit is plenty.'
+
+function surfData(overrides: { wave_height_ft?: number; wind_speed_kts?: number; wind_direction_description?: string; score?: number } = {}) {
+  const { score = 60, ...details } = overrides
+  return {
+    score,
+    details: {
+      wave_height_ft: 3,
+      wind_speed_kts: 6,
+      wind_direction_description: 'W offshore (clean offshore conditions)',
+      ...details,
+    },
+  }
+}
+
+function draft(first = CLEAN_FIRST, second = CLEAN_SECOND, bestSpots = ['Vilano Beach', 'St. Augustine Pier']): ReportDraft {
+  return { conditionsAnalysis: first, recommendationsAndOutlook: second, recommendations: { bestSpots } }
+}
+
+function rules(report: ReportDraft, data = surfData(), spots = SPOTS) {
+  return validateSurfReport(report, data, spots).map(issue => issue.rule)
+}
+
+describe('validateSurfReport', () => {
+  it('accepts a clean report', () => {
+    expect(validateSurfReport(draft(), surfData(), SPOTS)).toEqual([])
+  })
+
+  it('rejects a paragraph break inside a field', () => {
+    expect(rules(draft(`${CLEAN_FIRST}\n\nAnd another paragraph.`))).toEqual(['paragraphs'])
+  })
+
+  it('rejects emojis', () => {
+    expect(rules(draft(`${CLEAN_FIRST} 🌊`))).toEqual(['emoji'])
+  })
+
+  describe('raw figures', () => {
+    it.each([
+      ['3.2 ft', 'Sets are running 3.2 ft on the outside.'],
+      ['3-4ft', 'Expect 3-4ft sets at the pier.'],
+      ['12s', 'The swell is at 12s from the east.'],
+      ['10 seconds', 'Period sits around 10 seconds.'],
+      ['15 mph', 'Wind is 15 mph out of the north.'],
+      ['8 kts', 'Expect 8 kts of breeze by noon.'],
+      ['72°F', 'Water is 72°F today.'],
+      ['72°', 'Water is sitting at 72° today.'],
+      ['180 degrees', 'The swell swung 180 degrees overnight.'],
+    ])('flags %s', (figure, sentence) => {
+      const issues = validateSurfReport(draft(`${CLEAN_FIRST} ${sentence}`), surfData(), SPOTS)
+      expect(issues.map(i => i.rule)).toEqual(['raw-figure'])
+      expect(issues[0]!.message).toContain(`"${figure}"`)
+    })
+
+    it.each([
+      ['numbers without a unit', 'There are 2 good peaks and 3 channels to paddle through.'],
+      ['units that start a longer word', 'The bar splits into 3 sections with 2 sets an hour worth waiting for.'],
+      ['words starting with a unit', 'Give it 5 minutes and the 2 secret peaks by the jetty open up.'],
+      ['plain words', 'Waist-high and fun, so grab the log.'],
+    ])('passes %s', (_, sentence) => {
+      expect(rules(draft(`${CLEAN_FIRST} ${sentence}`))).toEqual([])
+    })
+  })
+
+  describe('spots', () => {
+    it.each([
+      ['exact names', ['Vilano Beach', 'Crescent Beach']],
+      ['different case and punctuation', ['vilano beach', 'St Augustine Pier']],
+      ['extra detail around a known spot', ['Vilano Beach (north end)', 'the St. Augustine Pier']],
+      ['a shortened known spot', ['Crescent', 'Vilano']],
+    ])('accepts %s', (_, bestSpots) => {
+      expect(rules(draft(CLEAN_FIRST, CLEAN_SECOND, bestSpots))).toEqual([])
+    })
+
+    it('rejects spots that are not in the list', () => {
+      const issues = validateSurfReport(draft(CLEAN_FIRST, CLEAN_SECOND, ['Vilano Beach', 'Pipeline']), surfData(), SPOTS)
+      expect(issues.map(i => i.rule)).toEqual(['unknown-spot'])
+      expect(issues[0]!.message).toContain('Pipeline')
+    })
+
+    it.each([
+      ['no known spots', []],
+      ['a single known spot', ['Main Beach']],
+    ])('skips the recommendations check for a location with %s', (_, spots) => {
+      const second = 'The north end has the most defined peaks. A longboard will make the most of it.'
+      expect(rules(draft(CLEAN_FIRST, second, ['North Jetty', 'South Jetty']), surfData(), spots)).toEqual([])
+    })
+
+    describe('in the prose', () => {
+      it.each([
+        ['known spots', 'Vilano Beach and Crescent Beach both have peaks, and the St. Augustine Pier blocks the wind.'],
+        ['a known spot with a sentence opener', 'Check Vilano Beach first thing. The pier is the backup.'],
+        ['the location itself', 'St. Augustine Beach is waist-high across the board.'],
+        ['a break noun without a name', 'The Pier is crowded, and the beach break is softer.'],
+        ['capitalised words that are not spot names', 'Expect a Saturday crowd. Low tide drains it.'],
+      ])('accepts %s', (_, sentence) => {
+        expect(validateSurfReport(draft(CLEAN_FIRST, sentence), surfData(), SPOTS, 'St. Augustine, FL')).toEqual([])
+      })
+
+      it.each([
+        ['a break from another location', 'Sebastian Inlet is the call today.', 'Sebastian Inlet'],
+        ['a break named after a sentence opener', 'Try Anastasia State Park if Vilano Beach gets crowded.', 'Anastasia State Park'],
+        ['a break next to a known one', 'Matanzas Inlet will see more size than Crescent Beach.', 'Matanzas Inlet'],
+      ])('flags %s', (_, sentence, spot) => {
+        for (const report of [draft(`${CLEAN_FIRST} ${sentence}`), draft(CLEAN_FIRST, `${CLEAN_SECOND} ${sentence}`)]) {
+          const issues = validateSurfReport(report, surfData(), SPOTS, 'St. Augustine, FL')
+          expect(issues.map(i => i.rule)).toEqual(['unknown-spot'])
+          expect(issues[0]!.message).toBe(`Report mentions spots not in the spot list: ${spot}`)
+        }
+      })
+
+      it('is skipped for a location with no known spots', () => {
+        expect(rules(draft(CLEAN_FIRST, 'Sebastian Inlet is the call today.', ['North Jetty', 'South Jetty']), surfData(), [])).toEqual([])
+      })
+    })
+  })
+
+  describe('contradictions', () => {
+    it.each([
+      ['big waves on a small day', 'Big waves are rolling through all morning.', surfData({ wave_height_ft: 1 })],
+      ['a size word with an adjective before the wave noun', 'Solid, clean sets are stacking up.', surfData({ wave_height_ft: 1.5 })],
+      ['overhead on a small day', 'It is overhead on the sets.', surfData({ wave_height_ft: 1 })],
+      ['flat on a big day', 'It is basically flat out there.', surfData({ wave_height_ft: 5 })],
+      ['glassy in strong wind', 'Glassy conditions all morning.', surfData({ wind_speed_kts: 15 })],
+      ['offshore when the wind is onshore', 'The offshore breeze is grooming it.', surfData({ wind_direction_description: 'E onshore (moderate onshore - some chop)' })],
+      ['onshore when the wind is offshore', 'An onshore breeze is adding texture.', surfData()],
+      ['epic on a low score', 'It is epic out there.', surfData({ score: 30 })],
+    ])('flags %s', (_, sentence, data) => {
+      expect(rules(draft(`${CLEAN_FIRST} ${sentence}`), data)).toEqual(['contradiction'])
+    })
+
+    it.each([
+      ['a negated claim', "It's not pumping, but it's rideable.", surfData({ wave_height_ft: 1 })],
+      ['a negated contraction', "Don't expect big waves today.", surfData({ wave_height_ft: 1 })],
+      ['a hedge', 'It is far from epic.', surfData({ score: 30 })],
+      ['heavy rain on a small day', 'Heavy rain is moving through after lunch.', surfData({ wave_height_ft: 1 })],
+      ['big crowds on a small day', 'Expect big crowds at the pier this weekend.', surfData({ wave_height_ft: 1 })],
+      ['a large tidal range on a small day', 'The large tidal range will flood the beach at high.', surfData({ wave_height_ft: 1 })],
+      ['size words when the size is right', 'Solid sets are rolling through.', surfData({ wave_height_ft: 4 })],
+    ])('passes %s', (_, sentence, data) => {
+      expect(rules(draft(`${CLEAN_FIRST} ${sentence}`), data)).toEqual([])
+    })
+
+    it('only skips the negated sentence', () => {
+      const text = `${CLEAN_FIRST} It's not flat. Glassy and perfect all morning.`
+      expect(rules(draft(text), surfData({ wave_height_ft: 5, wind_speed_kts: 15 }))).toEqual(['contradiction'])
+    })
+  })
+})
+
+describe('describeIssuesForRetry', () => {
+  it('lists every issue for the model to fix', () => {
+    const issues = validateSurfReport(
+      draft(`${CLEAN_FIRST} 🌊 Sets are 3 ft.`, CLEAN_SECOND, ['Vilano Beach', 'Pipeline']),
+      surfData(),
+      SPOTS
+    )
+    const retry = describeIssuesForRetry(issues)
+
+    expect(retry).toContain('YOUR PREVIOUS DRAFT WAS REJECTED')
+    expect(retry.split('\n').filter(line => line.startsWith('• '))).toEqual(issues.map(i => `• ${i.message}`))
+    expect(issues.map(i => i.rule)).toEqual(['emoji', 'raw-figure', 'unknown-spot'])
+  })
+
+  it('starts on a new line so it can be appended to the prompt', () => {
+    expect(describeIssuesForRetry([{ rule: 'emoji', message: 'Report contains emojis' }])).toMatch(/^\n\n/)
+  })
+})
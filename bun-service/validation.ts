@@ -0,0 +1,159 @@
+// Post-generation checks for the rules the prompt states but the schema can't enforce.
+// A report with any issue is regenerated with the issues fed back, and replaced by the
+// template report if it still fails.
+
+export interface ReportDraft {
+  conditionsAnalysis: string;
+  recommendationsAndOutlook: string;
+  recommendations: {
+    bestSpots: string[];
+  };
+}
+
+export interface ValidationIssue {
+  rule: 'paragraphs' | 'emoji' | 'raw-figure' | 'unknown-spot' | 'contradiction';
+  message: string;
+}
+
+// Number followed by a unit, e.g. "3.2 ft", "12s", "15 mph", "72°F"
+// The unit must end the word, so "3 sections" or "2 sets" aren't figures
+const RAW_FIGURE = /\b\d+(?:\.\d+)?\s*(?:-\s*\d+(?:\.\d+)?\s*)?(?:(?:ft|feet|foot|sec|secs|seconds?|s|mph|kts|knots?|km\/h|degrees?)\b|°(?:\s*[fc]\b)?)/gi
+
+const EMOJI = /\p{Extended_Pictographic}/u
+
+// One to three capitalised words ending in a break-type noun, e.g. "Sebastian Inlet" or
+// "Ala Moana Bowls Park". Sentence openers that get caught up in it are trimmed off after.
+const SPOT_PHRASE = /\b(?:[A-Z][\w'’.-]*\s+){1,3}(?:Beach|Pier|Point|Inlet|Jetty|Jetties|Reef|Bay|Cove|Park|Harbor|Harbour|Rocks|Shores?|Break|Lighthouse)\b/g
+const LEADING_FILLER = /^(?:(?:The|A|An|This|That|Head|Try|Check|Hit|Paddle|Over|Near|At|By|From|On|In|Up|Down|And|But|Or|If|Then|Otherwise|Meanwhile)\s+)+/
+
+// Sentences with a negation are skipped so "it's not pumping" doesn't count as calling it pumping
+const NEGATION = /\b(?:not|no|never|isn't|aren't|won't|don't|doesn't|hardly|far from)\b|n't\b/i
+
+interface ContradictionRule {
+  words: RegExp;
+  applies: (surfData: any) => boolean;
+  describe: (surfData: any) => string;
+}
+
+const CONTRADICTIONS: ContradictionRule[] = [
+  {
+    // Size words only count next to a wave noun, so "heavy rain" or "a big tide swing" pass
+    words: /\b(?:(?:solid|big|large|huge|heavy|powerful)(?:,?\s+[a-z-]+)?\s+(?:waves?|surf|sets?|swells?|peaks?|faces?)|(?:double[- ])?overhead|pumping)\b/i,
+    applies: d => d.details.wave_height_ft < 2,
+    describe: d => `waves are only ${d.details.wave_height_ft}ft`,
+  },
+  {
+    words: /\b(?:flat|tiny|ankle[- ]high|knee[- ]high)\b/i,
+    applies: d => d.details.wave_height_ft >= 4,
+    describe: d => `waves are ${d.details.wave_height_ft}ft`,
+  },
+  {
+    words: /\b(?:glassy|glass|calm winds?|no wind)\b/i,
+    applies: d => d.details.wind_speed_kts >= 12,
+    describe: d => `wind is ${d.details.wind_speed_kts}kts`,
+  },
+  {
+    words: /\boffshore\b/i,
+    applies: d => /\bonshore\b/i.test(d.details.wind_direction_description ?? ''),
+    describe: () => 'wind is onshore',
+  },
+  {
+    words: /\bonshore\b/i,
+    applies: d => /\boffshore\b/i.test(d.details.wind_direction_description ?? ''),
+    describe: () => 'wind is offshore',
+  },
+  {
+    words: /\b(?:epic|firing|excellent|all[- ]time|world[- ]class)\b/i,
+    applies: d => d.score < 45,
+    describe: d => `the surfability score is ${d.score}/100`,
+  },
+]
+
+function sentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).filter(Boolean)
+}
+
+function normalizeSpot(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+// A recommended spot counts as known when it names one of the location's spots,
+// allowing extra detail like "Vilano Beach (north end)"
+function isKnownSpot(spot: string, bestSpots: string[]): boolean {
+  const normalized = normalizeSpot(spot)
+  return bestSpots.some(known => {
+    const k = normalizeSpot(known)
+    return normalized.includes(k) || k.includes(normalized)
+  })
+}
+
+// Spot-like names in the prose that aren't one of the location's spots or the location itself
+function findUnknownSpotMentions(prose: string, bestSpots: string[], locationName: string): string[] {
+  // "St. Augustine, FL" is mentioned as "St. Augustine"
+  const allowed = [...bestSpots, locationName.split(',')[0]!].filter(name => name.trim())
+  const mentions = (prose.match(SPOT_PHRASE) ?? [])
+    .map(phrase => phrase.replace(LEADING_FILLER, '').trim())
+    // A filler word alone in front of the noun, e.g. "The Pier", isn't a name
+    .filter(phrase => /\s/.test(phrase))
+  return Array.from(new Set(mentions.filter(phrase => !isKnownSpot(phrase, allowed))))
+}
+
+export function validateSurfReport(draft: ReportDraft, surfData: any, bestSpots: string[], locationName = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const paragraphs = [draft.conditionsAnalysis, draft.recommendationsAndOutlook]
+  const prose = paragraphs.join('\n\n')
+
+  if (paragraphs.some(p => /\n\s*\n/.test(p.trim()))) {
+    issues.push({ rule: 'paragraphs', message: 'Report must be exactly 2 paragraphs; one of the fields contains a paragraph break' })
+  }
+
+  if (EMOJI.test(prose)) {
+    issues.push({ rule: 'emoji', message: 'Report contains emojis' })
+  }
+
+  const figures = Array.from(new Set(prose.match(RAW_FIGURE) ?? []))
+  if (figures.length > 0) {
+    issues.push({ rule: 'raw-figure', message: `Report restates raw figures: ${figures.map(f => `"${f.trim()}"`).join(', ')}` })
+  }
+
+  // The schema asks for at least two spots, so a location with fewer known spots
+  // would fail every draft; its recommendations can't be checked
+  const unknownSpots = bestSpots.length < 2
+    ? []
+    : draft.recommendations.bestSpots.filter(spot => !isKnownSpot(spot, bestSpots))
+  if (unknownSpots.length > 0) {
+    issues.push({ rule: 'unknown-spot', message: `Recommended spots not in the spot list: ${unknownSpots.join(', ')}` })
+  }
+
+  // The paragraphs can talk up a break the structured list leaves out
+  const unknownMentions = bestSpots.length === 0 ? [] : findUnknownSpotMentions(prose, bestSpots, locationName)
+  if (unknownMentions.length > 0) {
+    issues.push({ rule: 'unknown-spot', message: `Report mentions spots not in the spot list: ${unknownMentions.join(', ')}` })
+  }
+
+  for (const rule of CONTRADICTIONS) {
+    if (!rule.applies(surfData)) continue
+    const sentence = sentences(prose).find(s => rule.words.test(s) && !NEGATION.test(s))
+    if (sentence) {
+      const word = sentence.match(rule.words)![0]
+      issues.push({ rule: 'contradiction', message: `Calls conditions "${word}" but ${rule.describe(surfData)}` })
+    }
+  }
+
+  return issues
+}
+
+// Appended to the prompt on a retry so the model knows what to fix
+export function describeIssuesForRetry(issues: ValidationIssue[]): string {
+  return `
+
+YOUR PREVIOUS DRAFT WAS REJECTED. Fix every problem below in this attempt:
+${issues.map(i => `• ${i.message}`).join('\n')}`
+}
+
+export class ReportValidationError extends Error {
+  constructor(public rejected: ValidationIssue[][]) {
+    super(`Report failed validation after ${rejected.length} attempt${rejected.length === 1 ? '' : 's'}: ${rejected[rejected.length - 1]!.map(i => i.message).join('; ')}`)
+    this.name = 'ReportValidationError'
+  }
+}
@@ -1,6 +1,12 @@
 const CACHE_NAME = 'surf-lab-v2.0.0';
 const DYNAMIC_CACHE = 'surf-lab-dynamic-v2.0.0';
 const IMAGE_CACHE = 'surf-lab-images-v2.0.0';
+// Latest /api/surf-report response per location, for opening the app offline.
+// The page reads this cache directly too, so keep the name in sync with
+// OFFLINE_REPORT_CACHE in src/app/lib/service-worker.ts
+const REPORT_CACHE = 'surf-lab-reports-v1';
+// Slugs the user has saved (last viewed spot + favourites), posted by the page
+const SAVED_LOCATIONS_KEY = '/__saved-locations';
 
 // Runtime caching strategy
 const CACHE_STRATEGIES = {
@@ -17,14 +23,174 @@ self.addEventListener('sync', event => {
   }
 });
 
+// Refreshes the offline copy of every saved location's report
 async function syncSurfData() {
+  const slugs = await getSavedLocations();
+  await Promise.all(slugs.map(async slug => {
+    try {
+      await fetchAndCacheReport(reportCacheKey(slug));
+    } catch (error) {
+      console.log(`Background sync for ${slug} failed, will retry`);
+    }
+  }));
+}
+
+function reportCacheKey(slug) {
+  return slug ? `/api/surf-report?location=${encodeURIComponent(slug)}` : '/api/surf-report';
+}
+
+async function getSavedLocations() {
+  const cache = await caches.open(REPORT_CACHE);
+  const stored = await cache.match(SAVED_LOCATIONS_KEY);
+  return stored ? stored.json() : [];
+}
+
+// Stamps the copy with when it was stored, so an offline read can say how old it is
+async function cacheReportResponse(key, response) {
+  const headers = new Headers(response.headers);
+  headers.set('X-Offline-Cached-At', new Date().toISOString());
+  const body = await response.clone().blob();
+  const cache = await caches.open(REPORT_CACHE);
+  await cache.put(key, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+}
+
+async function fetchAndCacheReport(key, request) {
+  const response = await fetch(request || key, { cache: 'no-store' });
+  if (response.ok) await cacheReportResponse(key, response);
+  return response;
+}
+
+// Network first for reports; the cached copy only answers when the network can't
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages and build assets are cached as they're used so the app shell opens offline
+  if (event.request.mode === 'navigate') {
+    event.respondWith(networkFirst(event.request, DYNAMIC_CACHE));
+    return;
+  }
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(event.request, CACHE_NAME));
+    return;
+  }
+  if (url.pathname !== '/api/surf-report') return;
+
+  const key = reportCacheKey(url.searchParams.get('location'));
+  event.respondWith((async () => {
+    try {
+      return await fetchAndCacheReport(key, event.request);
+    } catch (error) {
+      const cached = await caches.match(key, { cacheName: REPORT_CACHE });
+      if (cached) return cached;
+      throw error;
+    }
+  })());
+});
+
+async function networkFirst(request, cacheName) {
   try {
-    const response = await fetch('/api/surfability');
+    const response = await fetch(request);
     if (response.ok) {
-      const cache = await caches.open(DYNAMIC_CACHE);
-      await cache.put('/api/surfability', response);
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
     }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { cacheName });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Build assets are content-hashed, so a cached copy never goes out of date
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request, { cacheName });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'saved-locations' || !Array.isArray(event.data.slugs)) return;
+  const slugs = event.data.slugs.filter(slug => typeof slug === 'string');
+
+  event.waitUntil((async () => {
+    const cache = await caches.open(REPORT_CACHE);
+    await cache.put(SAVED_LOCATIONS_KEY, new Response(JSON.stringify(slugs), { headers: { 'Content-Type': 'application/json' } }));
+
+    // Drop reports for spots that are no longer saved, and fetch any saved spot we don't have yet
+    const keys = await cache.keys();
+    const wanted = slugs.map(slug => new URL(reportCacheKey(slug), self.location.origin).href);
+    await Promise.all(keys
+      .filter(request => new URL(request.url).pathname === '/api/surf-report' && !wanted.includes(request.url))
+      .map(request => cache.delete(request)));
+    await Promise.all(slugs.map(async slug => {
+      const key = reportCacheKey(slug);
+      if (await cache.match(key)) return;
+      try {
+        await fetchAndCacheReport(key);
+      } catch (error) {
+        console.log(`Could not prefetch report for ${slug}`);
+      }
+    }));
+  })());
+});
+
+// Take over open tabs straight away so push works without a second visit
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim());
+});
+
+// Condition alerts sent by the cron (see src/app/lib/alerts.ts for the payload)
+self.addEventListener('push', event => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
   } catch (error) {
-    console.log('Background sync failed, will retry');
+    data = { body: event.data ? event.data.text() : '' };
   }
-}
\ No newline at end of file
+
+  const slug = data.slug || '';
+  const title = data.title || 'Surf alert';
+  const details = [];
+  if (typeof data.score === 'number') details.push(`Score ${data.score}/100`);
+  if (typeof data.wave_height_ft === 'number') details.push(`${data.wave_height_ft}ft`);
+
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: data.body || details.join(' · '),
+      icon: '/icons/icon-192.png',
+      badge: '/icons/icon-192.png',
+      // One notification per spot; a newer alert replaces the older one
+      tag: slug ? `surf-alert-${slug}` : 'surf-alert',
+      renotify: true,
+      data: { url: data.url || (slug ? `/${slug}` : '/') }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    // Reuse an open tab if there is one rather than stacking new windows
+    for (const client of windows) {
+      if ('focus' in client) {
+        if (client.url !== url && 'navigate' in client) await client.navigate(url);
+        return client.focus();
+      }
+    }
+    return self.clients.openWindow(url);
+  })());
+});
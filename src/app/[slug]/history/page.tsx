@@ -0,0 +1,42 @@
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import { ReportHistory } from '../../components/ReportHistory';
+import { getLocation } from '@/lib/location-registry';
+import { getReportHistoryDay, isReportDate, todayIn, type ReportHistoryDay } from '@/lib/report-history';
+
+interface Props {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ date?: string }>;
+}
+
+export const dynamic = 'force-dynamic';
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const location = await getLocation(slug);
+  if (!location) return { title: 'Not Found' };
+  return {
+    title: `Past surf reports - ${location.name} | Can I Surf Today?`,
+    description: `Previous AI surf reports for ${location.name}, day by day, with how conditions actually turned out.`,
+    robots: { index: false },
+  };
+}
+
+export default async function LocationHistoryPage({ params, searchParams }: Props) {
+  const { slug } = await params;
+  const { date: dateParam } = await searchParams;
+  const location = await getLocation(slug);
+
+  if (!location) notFound();
+
+  const date = isReportDate(dateParam) ? dateParam : todayIn(location.timezone);
+
+  let history: ReportHistoryDay | null = null;
+  try {
+    history = await getReportHistoryDay(location, date);
+  } catch (error) {
+    console.error(`❌ Report history page failed for ${location.name}:`, error);
+  }
+
+  return <ReportHistory locationSlug={location.slug} locationName={location.name} timezone={location.timezone} date={date} history={history} />;
+}
@@ -2,7 +2,7 @@ import { notFound } from 'next/navigation';
 import { Metadata } from 'next';
 import { SurfAppClient } from '../components/SurfAppClient';
 import { getCachedReport } from '@/lib/db';
-import { getLocation, LOCATIONS } from '@/lib/locations';
+import { getLocation, listLocations, listLocationSummaries } from '@/lib/location-registry';
 
 interface Props {
   params: Promise<{ slug: string }>;
@@ -22,13 +22,20 @@ function extractConditionFromReport(report: string): string {
   return 'Current';
 }
 
+// Locations added later through the admin API render on demand (dynamicParams defaults to true),
+// as does every location if the registry can't be read at build time
 export async function generateStaticParams() {
-  return LOCATIONS.map(loc => ({ slug: loc.slug }));
+  try {
+    return (await listLocations()).map(loc => ({ slug: loc.slug }));
+  } catch (error) {
+    console.error('❌ Location registry unavailable at build, rendering all locations on demand:', error);
+    return [];
+  }
 }
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
   const { slug } = await params;
-  const location = getLocation(slug);
+  const location = await getLocation(slug);
   if (!location) return { title: 'Not Found' };
 
   let surfReport = null;
@@ -65,7 +72,7 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
 
 export default async function LocationPage({ params }: Props) {
   const { slug } = await params;
-  const location = getLocation(slug);
+  const location = await getLocation(slug);
 
   if (!location) notFound();
 
@@ -78,5 +85,7 @@ export default async function LocationPage({ params }: Props) {
     if (ageMs < 8 * 60 * 60 * 1000) initialReport = cached;
   } catch (_) {}
 
-  return <SurfAppClient initialReport={initialReport} locationSlug={slug} />;
+  const locations = await listLocationSummaries();
+
+  return <SurfAppClient initialReport={initialReport} locationSlug={slug} locations={locations} />;
 }
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getForecastAccuracyStats } from '@/lib/db';
+import { getLocation, listLocations } from '@/lib/location-registry';
+import { recordForecastAccuracy } from '@/lib/forecast-accuracy';
+import { isAuthorized } from '@/lib/admin-auth';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_STATS_DAYS = 365;
+
+// Predicted vs observed error statistics per location over the last `days` days.
+// Errors are observed minus predicted, so a negative score bias means reports run optimistic.
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const slug = params.get('location');
+  if (slug !== null && !(await getLocation(slug))) {
+    return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
+  }
+
+  const days = params.get('days') === null ? 30 : Number(params.get('days'));
+  if (!Number.isInteger(days) || days < 1 || days > MAX_STATS_DAYS) {
+    return NextResponse.json({ error: `days must be a whole number between 1 and ${MAX_STATS_DAYS}` }, { status: 400 });
+  }
+
+  try {
+    const since = new Date(Date.now() - days * DAY_MS).toISOString();
+    const locations = await getForecastAccuracyStats(since, slug ?? undefined);
+    return NextResponse.json({ since, days, locations });
+  } catch (error) {
+    console.error('❌ Error fetching forecast accuracy:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch forecast accuracy',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Scores pending reports now instead of waiting for the next cron run
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await recordForecastAccuracy(await listLocations());
+    return NextResponse.json({ success: result.errors.length === 0, ...result });
+  } catch (error) {
+    console.error('❌ Forecast accuracy run failed:', error);
+    return NextResponse.json({
+      error: 'Forecast accuracy run failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
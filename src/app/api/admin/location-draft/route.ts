@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { draftLocation } from '@/lib/location-onboarding';
+import { isAuthorized } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// Draft a location from coordinates: nearest NOAA tide station, its timezone and an
+// estimated coast orientation. Nothing is saved — review it, then POST to /api/admin/locations.
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const lat = Number(params.get('lat'));
+  const lon = Number(params.get('lon'));
+
+  if (params.get('lat') === null || params.get('lon') === null || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+    return NextResponse.json({ error: 'lat and lon are required decimal degrees' }, { status: 400 });
+  }
+  if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+    return NextResponse.json({ error: 'lat must be within ±90 and lon within ±180' }, { status: 400 });
+  }
+
+  try {
+    const result = await draftLocation({ lat, lon, name: params.get('name') ?? undefined });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('❌ Error drafting location:', error);
+    return NextResponse.json({
+      error: 'Failed to draft location',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteLocation, getLocationRecord, locationUpdateSchema, updateLocation } from '@/lib/location-registry';
+import { isAuthorized } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+interface Context {
+  params: { slug: string };
+}
+
+export async function GET(request: NextRequest, { params }: Context) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const location = await getLocationRecord(params.slug);
+    if (!location) {
+      return NextResponse.json({ error: `Unknown location: ${params.slug}` }, { status: 404 });
+    }
+    return NextResponse.json({ location });
+  } catch (error) {
+    console.error(`❌ Error fetching location ${params.slug}:`, error);
+    return NextResponse.json({
+      error: 'Failed to fetch location',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Partial update; send { "enabled": false } to take a spot offline without deleting it
+export async function PATCH(request: NextRequest, { params }: Context) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (_) {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = locationUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid location update', issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const location = await updateLocation(params.slug, parsed.data);
+    if (!location) {
+      return NextResponse.json({ error: `Unknown location: ${params.slug}` }, { status: 404 });
+    }
+    console.log(`✅ Location updated: ${params.slug}${parsed.data.enabled === false ? ' (disabled)' : ''}`);
+    return NextResponse.json({ success: true, location });
+  } catch (error) {
+    console.error(`❌ Error updating location ${params.slug}:`, error);
+    return NextResponse.json({
+      error: 'Failed to update location',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Removes the spot from the registry; its cached reports and history rows are left alone
+export async function DELETE(request: NextRequest, { params }: Context) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const deleted = await deleteLocation(params.slug);
+    if (!deleted) {
+      return NextResponse.json({ error: `Unknown location: ${params.slug}` }, { status: 404 });
+    }
+    console.log(`🗑️ Location deleted: ${params.slug}`);
+    return NextResponse.json({ success: true, slug: params.slug });
+  } catch (error) {
+    console.error(`❌ Error deleting location ${params.slug}:`, error);
+    return NextResponse.json({
+      error: 'Failed to delete location',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLocation, getLocationRecord, listLocationRows, locationCreateSchema } from '@/lib/location-registry';
+import { isAuthorized } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// All locations, including disabled ones
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const locations = await listLocationRows();
+    return NextResponse.json({ count: locations.length, locations });
+  } catch (error) {
+    console.error('❌ Error listing locations:', error);
+    return NextResponse.json({
+      error: 'Failed to list locations',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (_) {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = locationCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid location', issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    if (await getLocationRecord(parsed.data.slug)) {
+      return NextResponse.json({ error: `Location ${parsed.data.slug} already exists` }, { status: 409 });
+    }
+
+    const location = await createLocation(parsed.data);
+    return NextResponse.json({ success: true, location }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Error creating location:', error);
+    return NextResponse.json({
+      error: 'Failed to create location',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
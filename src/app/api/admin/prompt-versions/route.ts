@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPromptVersionStats } from '@/lib/db';
+import { getLocation } from '@/lib/location-registry';
+import { isAuthorized } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_STATS_DAYS = 365;
+
+// Word count and feedback per prompt version over the last `days` days.
+// Fallback reports carry no prompt version and are left out.
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const slug = params.get('location');
+  if (slug !== null && !(await getLocation(slug))) {
+    return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
+  }
+
+  const days = params.get('days') === null ? 30 : Number(params.get('days'));
+  if (!Number.isInteger(days) || days < 1 || days > MAX_STATS_DAYS) {
+    return NextResponse.json({ error: `days must be a whole number between 1 and ${MAX_STATS_DAYS}` }, { status: 400 });
+  }
+
+  try {
+    const since = new Date(Date.now() - days * DAY_MS).toISOString();
+    const versions = await getPromptVersionStats(since, slug ?? undefined);
+    return NextResponse.json({ since, days, location: slug, versions });
+  } catch (error) {
+    console.error('❌ Error fetching prompt version stats:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch prompt version stats',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
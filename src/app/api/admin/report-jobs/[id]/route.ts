@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReportJob } from '@/lib/db';
+import { listLocations } from '@/lib/location-registry';
+import { replayReportJob } from '@/lib/report-jobs';
+import { isAuthorized } from '@/lib/admin-auth';
+
+// Replay runs the Bun call inline
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const id = parseId(params.id);
+  if (id === null) {
+    return NextResponse.json({ error: 'Invalid job id' }, { status: 400 });
+  }
+
+  try {
+    const job = await getReportJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('❌ Error fetching report job:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch report job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Replays a failed or dead job: resets its attempts and runs it now
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || !isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const id = parseId(params.id);
+  if (id === null) {
+    return NextResponse.json({ error: 'Invalid job id' }, { status: 400 });
+  }
+
+  const bunServiceUrl = process.env.BUN_SERVICE_URL;
+  if (!bunServiceUrl) {
+    return NextResponse.json({ error: 'Server configuration error', details: 'BUN_SERVICE_URL not configured' }, { status: 500 });
+  }
+
+  try {
+    const job = await getReportJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    if (job.status !== 'failed' && job.status !== 'dead') {
+      return NextResponse.json({ error: `Only failed or dead jobs can be replayed (job is ${job.status})` }, { status: 409 });
+    }
+
+    const protocol = request.headers.get('x-forwarded-proto') || 'https';
+    const vercelUrl = `${protocol}://${request.headers.get('host')}`;
+
+    const result = await replayReportJob(id, await listLocations(), { bunServiceUrl, vercelUrl, cronSecret });
+    if (!result) {
+      return NextResponse.json({ error: 'Job was picked up by another runner' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: result.status === 'succeeded', result, job: await getReportJob(id) });
+  } catch (error) {
+    console.error('❌ Error replaying report job:', error);
+    return NextResponse.json({
+      error: 'Failed to replay report job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
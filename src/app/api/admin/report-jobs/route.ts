@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReportJobCounts, listReportJobs, type ReportJobStatus } from '@/lib/db';
+import { isAuthorized } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+const JOB_STATUSES: ReportJobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'dead'];
+const MAX_JOBS = 200;
+
+// Most recent report generation jobs, newest first, with a count per status
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const status = params.get('status');
+  if (status !== null && !JOB_STATUSES.includes(status as ReportJobStatus)) {
+    return NextResponse.json({ error: `status must be one of ${JOB_STATUSES.join(', ')}` }, { status: 400 });
+  }
+
+  const limit = params.get('limit') === null ? 50 : Number(params.get('limit'));
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_JOBS) {
+    return NextResponse.json({ error: `limit must be a whole number between 1 and ${MAX_JOBS}` }, { status: 400 });
+  }
+
+  try {
+    const [jobs, counts] = await Promise.all([
+      listReportJobs({
+        status: (status as ReportJobStatus | null) ?? undefined,
+        location: params.get('location') ?? undefined,
+        limit,
+      }),
+      getReportJobCounts(),
+    ]);
+    return NextResponse.json({ counts, jobs });
+  } catch (error) {
+    console.error('❌ Error listing report jobs:', error);
+    return NextResponse.json({
+      error: 'Failed to list report jobs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { neon } from '@neondatabase/serverless';
-import { LOCATIONS } from '@/lib/locations';
-
-const sql = neon(process.env.NEON_DATABASE_URL || process.env.DATABASE_URL || '');
+import { listLocations } from '@/lib/location-registry';
+import { cleanupConditionsHistory, cleanupReportHistory, cleanupReportJobs, getReportJobCounts } from '@/lib/db';
+import { getHistoryRetentionDays } from '@/lib/conditions-history';
+import { getReportRetentionDays } from '@/lib/report-history';
+import { evaluateAlerts, type AlertEvaluationResult } from '@/lib/alerts';
+import { isPushConfigured } from '@/lib/push';
+import { recordForecastAccuracy, type AccuracyRunResult } from '@/lib/forecast-accuracy';
+import { enqueueDueReportJobs, runReportJobs, REPORT_JOB_RETENTION_DAYS } from '@/lib/report-jobs';
 
 export const maxDuration = 60;
 export const dynamic = 'force-dynamic';
 
+// Alerts and accuracy scoring each fetch hourly conditions per location, which can take up
+// to 12s when an upstream is slow. No fetch starts after this point, so the last one is done
+// inside the 60s limit; locations left over are reported as skipped and handled next hour.
+const FETCH_DEADLINE_MS = 46000;
+
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
 
@@ -23,7 +32,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    console.log(`✅ Authorized cron request — processing ${LOCATIONS.length} locations`);
+    const locations = await listLocations();
+    console.log(`✅ Authorized cron request — processing ${locations.length} locations`);
 
     const bunServiceUrl = process.env.BUN_SERVICE_URL;
     if (!bunServiceUrl) {
@@ -34,77 +44,73 @@ export async function GET(request: NextRequest) {
     const host = request.headers.get('host');
     const vercelUrl = `${protocol}://${host}`;
 
-    // Clear stale reports (>24h) for all locations
-    const cleanupResult = await sql`
-      DELETE FROM surf_reports
-      WHERE timestamp < NOW() - INTERVAL '24 hours'
-      RETURNING id
-    `;
-    console.log(`🗑️ Cleaned up ${cleanupResult.length} old reports (>24h)`);
+    // Reports are kept for the history view; only those past retention are removed.
+    // New reports supersede older ones by timestamp, so nothing current needs clearing.
+    const reportsCleaned = await cleanupReportHistory(getReportRetentionDays());
+
+    // Conditions history has its own, much longer retention
+    const historyCleaned = await cleanupConditionsHistory(getHistoryRetentionDays());
 
-    // Clear current cache for all locations
-    const clearResult = await sql`
-      DELETE FROM surf_reports
-      WHERE timestamp >= NOW() - INTERVAL '24 hours'
-      RETURNING id, location
-    `;
-    console.log(`🗑️ Cleared ${clearResult.length} current cached reports`);
+    const jobsCleaned = await cleanupReportJobs(REPORT_JOB_RETENTION_DAYS);
 
-    // Generate fresh report for each location sequentially
-    const results: Array<{ slug: string; name: string; success: boolean; reportId?: string; error?: string }> = [];
+    // One job per location for its current slot; slots that already have one are skipped,
+    // and ?force=true queues a fresh job for every location
+    const queued = await enqueueDueReportJobs(locations, new Date(), request.nextUrl.searchParams.get('force') === 'true');
 
-    for (const location of LOCATIONS) {
-      console.log(`🌊 Generating report for ${location.name}...`);
+    // Runs this run's jobs along with earlier ones now due for a retry
+    const results = await runReportJobs(locations, { bunServiceUrl, vercelUrl, cronSecret, startedAt: startTime });
+    const queue = await getReportJobCounts();
 
+    const fetchDeadline = startTime + FETCH_DEADLINE_MS;
+
+    // Alerts go out after generation so they see the same conditions the new reports describe
+    let alerts: AlertEvaluationResult | { skipped: string } = { skipped: 'VAPID keys not configured' };
+    if (isPushConfigured()) {
       try {
-        const bunResponse = await fetch(`${bunServiceUrl}/cron/generate-fresh-report`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'User-Agent': 'SurfLab-Vercel-Cron/1.0' },
-          body: JSON.stringify({
-            cronSecret,
-            vercelUrl,
-            locationSlug: location.slug,
-            locationName: location.name,
-            localKnowledge: location.localKnowledge,
-            voiceDescriptor: location.voiceDescriptor,
-            bestSpots: location.bestSpots,
-            lat: location.lat,
-            timezone: location.timezone,
-          }),
-          signal: AbortSignal.timeout(45000)
-        });
-
-        if (bunResponse.ok) {
-          const bunResult = await bunResponse.json();
-          console.log(`✅ ${location.name}: report generated (${bunResult.actions?.new_report_id})`);
-          results.push({ slug: location.slug, name: location.name, success: true, reportId: bunResult.actions?.new_report_id });
-        } else {
-          const errorText = await bunResponse.text();
-          throw new Error(`Bun service returned ${bunResponse.status}: ${errorText}`);
-        }
+        alerts = await evaluateAlerts(locations, fetchDeadline);
+        console.log(`🔔 Alerts: ${alerts.sent} sent, ${alerts.matched}/${alerts.rules_checked} rules matched, ${alerts.skipped_locations.length} locations skipped`);
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
-        console.error(`❌ ${location.name} failed:`, message);
-        results.push({ slug: location.slug, name: location.name, success: false, error: message });
+        console.error('❌ Alert evaluation failed:', message);
+        alerts = { skipped: message };
       }
     }
 
-    const succeeded = results.filter(r => r.success).length;
-    const failed = results.filter(r => !r.success).length;
+    // Score reports whose window has closed against what actually happened. Pending
+    // reports keep, so a run that's short on time leaves them for the next one.
+    let accuracy: AccuracyRunResult | { skipped: string };
+    try {
+      accuracy = await recordForecastAccuracy(locations, fetchDeadline);
+      console.log(`📏 Forecast accuracy: ${accuracy.evaluated} reports scored, ${accuracy.skipped_locations.length} locations skipped`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('❌ Forecast accuracy failed:', message);
+      accuracy = { skipped: message };
+    }
+
+    const succeeded = results.filter(r => r.status === 'succeeded').length;
+    const failed = results.length - succeeded;
     const totalTime = Date.now() - startTime;
 
-    console.log(`🎯 CRON COMPLETE: ${succeeded}/${LOCATIONS.length} locations generated in ${totalTime}ms`);
+    console.log(`🎯 CRON COMPLETE: ${succeeded}/${results.length} jobs succeeded in ${totalTime}ms (${queue.queued + queue.failed} waiting)`);
 
     return NextResponse.json({
       success: failed === 0,
       timestamp: new Date().toISOString(),
       performance: { total_time_ms: totalTime, within_timeout: totalTime < 55000 },
       actions: {
-        old_reports_cleaned: cleanupResult.length,
-        current_cache_cleared: clearResult.length,
-        locations_succeeded: succeeded,
-        locations_failed: failed,
+        old_reports_cleaned: reportsCleaned,
+        conditions_history_cleaned: historyCleaned,
+        report_jobs_cleaned: jobsCleaned,
+        jobs_enqueued: queued.enqueued,
+        jobs_superseded: queued.superseded,
+        locations_up_to_date: queued.up_to_date,
+        jobs_succeeded: succeeded,
+        jobs_failed: failed,
+        queue,
         results,
+        alerts,
+        accuracy,
       },
     });
 
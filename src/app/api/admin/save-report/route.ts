@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { saveReport } from '@/lib/db';
+import { completeReportJobByKey, saveReport } from '@/lib/db';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,7 +14,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { report } = body;
+    const { report, jobKey } = body;
     
     if (!report || !report.id || !report.report) {
       return NextResponse.json({ error: 'Invalid report data' }, { status: 400 });
@@ -22,6 +22,11 @@ export async function POST(request: NextRequest) {
 
     await saveReport(report);
     console.log('✅ Report saved successfully:', report.id);
+
+    // Cron reports complete their job here too, in case the runner never hears back from Bun
+    if (typeof jobKey === 'string' && await completeReportJobByKey(jobKey, report.id)) {
+      console.log('✅ Report job completed:', jobKey);
+    }
     
     return NextResponse.json({
       success: true,
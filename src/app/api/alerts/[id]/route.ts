@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteAlertRule } from '@/lib/db';
+
+export const dynamic = 'force-dynamic';
+
+// The X-Push-Endpoint header must match the subscription the rule was created with
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const endpoint = request.headers.get('x-push-endpoint');
+  if (!endpoint) {
+    return NextResponse.json({ error: 'X-Push-Endpoint header is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteAlertRule(params.id, endpoint);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error deleting alert rule:', error);
+    return NextResponse.json({
+      error: 'Failed to delete alert rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { createAlertRule, getAlertRulesByEndpoint, getPushSubscription } from '@/lib/db';
+import { getLocation } from '@/lib/location-registry';
+import { alertRuleSchema, MAX_ALERT_RULES_PER_SUBSCRIPTION } from '@/lib/alerts';
+import { isPushConfigured } from '@/lib/push';
+
+export const dynamic = 'force-dynamic';
+
+// Rules belong to a push subscription, so the endpoint is what identifies the caller.
+// It's sent as a header rather than in the query string, which ends up in access logs.
+export async function GET(request: NextRequest) {
+  const endpoint = request.headers.get('x-push-endpoint');
+  if (!endpoint) {
+    return NextResponse.json({ error: 'X-Push-Endpoint header is required' }, { status: 400 });
+  }
+
+  try {
+    const rules = await getAlertRulesByEndpoint(endpoint);
+    return NextResponse.json({ count: rules.length, rules });
+  } catch (error) {
+    console.error('❌ Error listing alert rules:', error);
+    return NextResponse.json({
+      error: 'Failed to list alert rules',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isPushConfigured()) {
+    return NextResponse.json({ error: 'Push notifications are not configured on this server' }, { status: 503 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (_) {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = alertRuleSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid alert rule', issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    if (!(await getLocation(parsed.data.location))) {
+      return NextResponse.json({ error: `Unknown location: ${parsed.data.location}` }, { status: 400 });
+    }
+
+    if (!(await getPushSubscription(parsed.data.endpoint))) {
+      return NextResponse.json({ error: 'Unknown subscription — register it with /api/push/subscribe first' }, { status: 404 });
+    }
+
+    const existing = await getAlertRulesByEndpoint(parsed.data.endpoint);
+    if (existing.length >= MAX_ALERT_RULES_PER_SUBSCRIPTION) {
+      return NextResponse.json({
+        error: `A subscription can have at most ${MAX_ALERT_RULES_PER_SUBSCRIPTION} alert rules`
+      }, { status: 409 });
+    }
+
+    const rule = await createAlertRule({ id: randomUUID(), ...parsed.data });
+    return NextResponse.json({ success: true, rule }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Error creating alert rule:', error);
+    return NextResponse.json({
+      error: 'Failed to create alert rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
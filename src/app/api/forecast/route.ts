@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LOCATION_SLUG } from '@/lib/locations';
+import { getLocation } from '@/lib/location-registry';
+import { getHourlyForecast, MAX_FORECAST_DAYS } from '@/lib/forecast';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_FORECAST_DAYS = 3;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  const slug = request.nextUrl.searchParams.get('location') ?? DEFAULT_LOCATION_SLUG;
+  const location = await getLocation(slug);
+
+  if (!location) {
+    return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
+  }
+
+  const daysParam = request.nextUrl.searchParams.get('days');
+  const days = daysParam === null ? DEFAULT_FORECAST_DAYS : Number(daysParam);
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_FORECAST_DAYS) {
+    return NextResponse.json(
+      { error: `days must be a whole number between 1 and ${MAX_FORECAST_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  console.log(`📈 FORECAST REQUEST: ${location.name} (${days} days)`);
+
+  try {
+    const hours = await getHourlyForecast(location, days);
+    const responseTime = Date.now() - startTime;
+
+    return NextResponse.json({
+      location: location.name,
+      locationSlug: location.slug,
+      timezone: location.timezone,
+      timestamp: new Date().toISOString(),
+      days,
+      hours,
+      _debug: {
+        responseTime: `${responseTime}ms`,
+        hoursReturned: hours.length,
+        dataSourcesUsed: ['Open-Meteo Marine', 'NOAA Tides', 'Open-Meteo Weather'],
+      }
+    }, {
+      headers: {
+        'X-Response-Time': `${responseTime}ms`,
+        'Cache-Control': 'public, max-age=900, stale-while-revalidate=1800'
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Forecast failed for ${location.name}:`, error);
+    return NextResponse.json({
+      error: 'Forecast conditions unavailable',
+      details: error instanceof Error ? error.message : 'Unknown forecast error',
+      timestamp: new Date().toISOString(),
+      retryAfter: '5-15 minutes'
+    }, { status: 503 });
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getProviderHealth } from '@/lib/providers';
+import { getGenerationLockStats } from '@/lib/generation-lock';
 
 export async function GET() {
   try {
@@ -7,7 +9,11 @@ export async function GET() {
       timestamp: new Date().toISOString(),
       service: 'Can I Surf Today?',
       version: '2.0.0',
-      environment: process.env.NODE_ENV || 'development'
+      environment: process.env.NODE_ENV || 'development',
+      // Only providers this instance has called since it started
+      providers: getProviderHealth(),
+      // Cache-miss generations on this instance and the requests coalesced onto them
+      report_generation: getGenerationLockStats()
     });
   } catch (error) {
     return NextResponse.json(
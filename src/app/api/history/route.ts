@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LOCATION_SLUG } from '@/lib/locations';
+import { getLocation } from '@/lib/location-registry';
+import { getConditionsHistory, type HistoryBucket } from '@/lib/db';
+import { MAX_HISTORY_DAYS } from '@/lib/conditions-history';
+
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUCKETS: HistoryBucket[] = ['raw', 'hour', 'day'];
+
+function parseDateParam(value: string | null, fallback: Date): Date | null {
+  if (value === null) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Keep chart payloads to a few hundred points unless the caller asks otherwise
+function defaultBucket(rangeMs: number): HistoryBucket {
+  if (rangeMs <= 2 * DAY_MS) return 'raw';
+  if (rangeMs <= 31 * DAY_MS) return 'hour';
+  return 'day';
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const params = request.nextUrl.searchParams;
+
+  const slug = params.get('location') ?? DEFAULT_LOCATION_SLUG;
+  const location = await getLocation(slug);
+
+  if (!location) {
+    return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
+  }
+
+  // Default: the past week
+  const to = parseDateParam(params.get('to'), new Date(startTime));
+  const from = to && parseDateParam(params.get('from'), new Date(to.getTime() - 7 * DAY_MS));
+
+  if (!from || !to) {
+    return NextResponse.json({ error: 'from and to must be ISO 8601 timestamps' }, { status: 400 });
+  }
+  if (to <= from || to.getTime() - from.getTime() > MAX_HISTORY_DAYS * DAY_MS) {
+    return NextResponse.json(
+      { error: `to must be after from, and the range no longer than ${MAX_HISTORY_DAYS} days` },
+      { status: 400 }
+    );
+  }
+
+  const bucketParam = params.get('bucket');
+  if (bucketParam !== null && !BUCKETS.includes(bucketParam as HistoryBucket)) {
+    return NextResponse.json({ error: `bucket must be one of: ${BUCKETS.join(', ')}` }, { status: 400 });
+  }
+  const bucket = (bucketParam as HistoryBucket | null) ?? defaultBucket(to.getTime() - from.getTime());
+
+  try {
+    const points = await getConditionsHistory(location.slug, from.toISOString(), to.toISOString(), bucket);
+    const responseTime = Date.now() - startTime;
+
+    return NextResponse.json({
+      location: location.name,
+      locationSlug: location.slug,
+      timezone: location.timezone,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      bucket,
+      count: points.length,
+      points,
+      _debug: {
+        responseTime: `${responseTime}ms`,
+      }
+    }, {
+      headers: {
+        'X-Response-Time': `${responseTime}ms`,
+        'Cache-Control': 'public, max-age=300, stale-while-revalidate=900'
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Conditions history failed for ${location.name}:`, error);
+    return NextResponse.json({
+      error: 'Conditions history unavailable',
+      details: error instanceof Error ? error.message : 'Unknown database error',
+      timestamp: new Date().toISOString()
+    }, { status: 503 });
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { deleteUserProfile, getUserProfile, saveUserProfile } from '@/lib/db';
+import { isProfileId, PROFILE_COOKIE, PROFILE_COOKIE_MAX_AGE, userProfileSchema } from '@/lib/user-profile';
+
+export const dynamic = 'force-dynamic';
+
+function getProfileId(request: NextRequest): string | null {
+  const id = request.cookies.get(PROFILE_COOKIE)?.value;
+  return isProfileId(id) ? id : null;
+}
+
+export async function GET(request: NextRequest) {
+  const id = getProfileId(request);
+  if (!id) return NextResponse.json({ profile: null });
+
+  try {
+    return NextResponse.json({ profile: await getUserProfile(id) });
+  } catch (error) {
+    console.error('❌ Error fetching profile:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Creates the profile on first save and sets the cookie that identifies it
+export async function PUT(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (_) {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = userProfileSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid profile', issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const id = getProfileId(request) ?? randomUUID();
+    const profile = await saveUserProfile({ id, ...parsed.data });
+
+    const response = NextResponse.json({ success: true, profile });
+    response.cookies.set(PROFILE_COOKIE, id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: PROFILE_COOKIE_MAX_AGE,
+      path: '/',
+    });
+    return response;
+  } catch (error) {
+    console.error('❌ Error saving profile:', error);
+    return NextResponse.json({
+      error: 'Failed to save profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = getProfileId(request);
+
+  try {
+    if (id) await deleteUserProfile(id);
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(PROFILE_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('❌ Error deleting profile:', error);
+    return NextResponse.json({
+      error: 'Failed to delete profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
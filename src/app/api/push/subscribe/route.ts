@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { savePushSubscription } from '@/lib/db';
+import { isPushConfigured, pushSubscriptionSchema } from '@/lib/push';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  if (!isPushConfigured()) {
+    return NextResponse.json({ error: 'Push notifications are not configured on this server' }, { status: 503 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (_) {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = pushSubscriptionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid subscription', issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    await savePushSubscription(parsed.data, request.headers.get('user-agent'));
+    return NextResponse.json({ success: true, endpoint: parsed.data.endpoint }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Error saving push subscription:', error);
+    return NextResponse.json({
+      error: 'Failed to save push subscription',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
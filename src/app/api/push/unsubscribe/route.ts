@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { deletePushSubscription } from '@/lib/db';
+
+export const dynamic = 'force-dynamic';
+
+const unsubscribeSchema = z.object({ endpoint: z.string().url() });
+
+// Removes the subscription and every alert rule attached to it
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (_) {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = unsubscribeSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deletePushSubscription(parsed.data.endpoint);
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error('❌ Error deleting push subscription:', error);
+    return NextResponse.json({
+      error: 'Failed to delete push subscription',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getVapidPublicKey } from '@/lib/push';
+
+export const dynamic = 'force-dynamic';
+
+// The browser needs this as applicationServerKey before it can subscribe
+export async function GET() {
+  const publicKey = getVapidPublicKey();
+  if (!publicKey) {
+    return NextResponse.json({ error: 'Push notifications are not configured on this server' }, { status: 503 });
+  }
+  return NextResponse.json({ publicKey });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LOCATION_SLUG } from '@/lib/locations';
+import { getLocation } from '@/lib/location-registry';
+import { getSessionWindows, describeSessionWindows, SESSION_WINDOW_HORIZON_HOURS } from '@/lib/session-windows';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_WINDOWS = 10;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  const slug = request.nextUrl.searchParams.get('location') ?? DEFAULT_LOCATION_SLUG;
+  const location = await getLocation(slug);
+
+  if (!location) {
+    return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
+  }
+
+  const countParam = request.nextUrl.searchParams.get('count');
+  const count = countParam === null ? 3 : Number(countParam);
+
+  if (!Number.isInteger(count) || count < 1 || count > MAX_WINDOWS) {
+    return NextResponse.json(
+      { error: `count must be a whole number between 1 and ${MAX_WINDOWS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const windows = await getSessionWindows(location, { count });
+    const responseTime = Date.now() - startTime;
+
+    return NextResponse.json({
+      location: location.name,
+      locationSlug: location.slug,
+      timezone: location.timezone,
+      timestamp: new Date().toISOString(),
+      horizon_hours: SESSION_WINDOW_HORIZON_HOURS,
+      windows,
+      timing_advice: describeSessionWindows(windows),
+    }, {
+      headers: {
+        'X-Response-Time': `${responseTime}ms`,
+        'Cache-Control': 'public, max-age=900, stale-while-revalidate=1800'
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Session windows failed for ${location.name}:`, error);
+    return NextResponse.json({
+      error: 'Session windows unavailable',
+      details: error instanceof Error ? error.message : 'Unknown forecast error',
+      timestamp: new Date().toISOString(),
+      retryAfter: '5-15 minutes'
+    }, { status: 503 });
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
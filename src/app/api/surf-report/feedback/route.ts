@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { reportExists, saveReportFeedback } from '@/lib/db';
+
+export const dynamic = 'force-dynamic';
+
+const feedbackSchema = z.object({
+  report_id: z.string().min(1).max(200),
+  helpful: z.boolean(),
+});
+
+// Thumbs up/down on a report, used to compare prompt versions
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (_) {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = feedbackSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    if (!(await reportExists(parsed.data.report_id))) {
+      return NextResponse.json({ error: `Unknown report: ${parsed.data.report_id}` }, { status: 404 });
+    }
+
+    await saveReportFeedback(parsed.data.report_id, parsed.data.helpful);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error saving report feedback:', error);
+    return NextResponse.json({
+      error: 'Failed to save report feedback',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
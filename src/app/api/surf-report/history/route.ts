@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LOCATION_SLUG } from '@/lib/locations';
+import { getLocation } from '@/lib/location-registry';
+import { getReportHistoryDay, getReportRetentionDays, isReportDate, todayIn } from '@/lib/report-history';
+
+export const dynamic = 'force-dynamic';
+
+// Past reports for one local day, each compared with the conditions archived after it,
+// plus the list of days that have reports for browsing
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const params = request.nextUrl.searchParams;
+
+  const slug = params.get('location') ?? DEFAULT_LOCATION_SLUG;
+  const location = await getLocation(slug);
+
+  if (!location) {
+    return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
+  }
+
+  const dateParam = params.get('date');
+  if (dateParam !== null && !isReportDate(dateParam)) {
+    return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 });
+  }
+  const date = dateParam ?? todayIn(location.timezone);
+
+  try {
+    const history = await getReportHistoryDay(location, date);
+    const responseTime = Date.now() - startTime;
+
+    return NextResponse.json({
+      location: location.name,
+      locationSlug: location.slug,
+      timezone: location.timezone,
+      retention_days: getReportRetentionDays(),
+      ...history,
+      count: history.reports.length,
+      _debug: {
+        responseTime: `${responseTime}ms`,
+      }
+    }, {
+      headers: {
+        'X-Response-Time': `${responseTime}ms`,
+        'Cache-Control': 'public, max-age=300, stale-while-revalidate=900'
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Report history failed for ${location.name}:`, error);
+    return NextResponse.json({
+      error: 'Report history unavailable',
+      details: error instanceof Error ? error.message : 'Unknown database error',
+      timestamp: new Date().toISOString()
+    }, { status: 503 });
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -1,6 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCachedReport, saveReport, ensureInitialized } from '@/lib/db';
-import { getLocation, DEFAULT_LOCATION_SLUG, type Location } from '@/lib/locations';
+import { DEFAULT_LOCATION_SLUG, type Location } from '@/lib/locations';
+import { getLocation } from '@/lib/location-registry';
+import { claimGeneration } from '@/lib/generation-lock';
+import { checkReportFreshness } from '@/lib/report-freshness';
+import {
+  buildBunRequestBody,
+  createLocalFallbackReport,
+  enhanceReportWithCompassDirections,
+  fetchGenerationInputs,
+  getInternalBaseUrl,
+  MAX_CACHED_REPORT_AGE_HOURS,
+} from '@/lib/report-generation';
 
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -8,7 +19,7 @@ export async function GET(request: NextRequest) {
 
   try {
     const slug = request.nextUrl.searchParams.get('location') ?? DEFAULT_LOCATION_SLUG;
-    const location = getLocation(slug);
+    const location = await getLocation(slug);
 
     if (!location) {
       return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
@@ -22,9 +33,16 @@ export async function GET(request: NextRequest) {
     if (cachedReport) {
       const reportAge = Date.now() - new Date(cachedReport.timestamp).getTime();
       const ageHours = reportAge / (1000 * 60 * 60);
-      const responseTime = Date.now() - startTime;
 
-      if (ageHours < 8) {
+      // Young enough, but conditions may have moved on since it was written
+      const freshness = ageHours < MAX_CACHED_REPORT_AGE_HOURS
+        ? await checkReportFreshness(location, cachedReport)
+        : null;
+      if (freshness && !freshness.current) {
+        console.log(`🌩️ CACHE INVALIDATED (${location.name}): ${freshness.reasons.join('; ')}`);
+      }
+
+      if (freshness?.current) {
         const cacheStatus = ageHours < 1 ? 'fresh' : ageHours < 4 ? 'good' : 'stale-but-usable';
         console.log(`✅ CACHE HIT: ${cacheStatus.toUpperCase()} (${location.name})`);
 
@@ -32,7 +50,7 @@ export async function GET(request: NextRequest) {
           headers: {
             'X-Data-Source': `cache-${cacheStatus}`,
             'X-Cache-Status': 'hit',
-            'X-Response-Time': `${responseTime}ms`,
+            'X-Response-Time': `${Date.now() - startTime}ms`,
             'X-Report-Age-Hours': `${Math.round(ageHours * 10) / 10}`,
             'X-Cache-Valid-Until': cachedReport.cached_until,
             'X-API-Calls-Made': '0',
@@ -42,9 +60,35 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // STEP 2: CACHE MISS — GENERATE FRESH
-    console.log(`🚨 GENERATING FRESH REPORT for ${location.name} - THIS SHOULD BE RARE!`);
-    return await generateFreshReportViaBun(request, startTime, location);
+    // STEP 2: CACHE MISS — ONE REQUEST PER LOCATION GENERATES, THE REST COALESCE ONTO IT
+    const slot = await claimGeneration(slug, cachedReport);
+
+    if (slot.status === 'stale' || slot.status === 'ready') {
+      return NextResponse.json(slot.report, {
+        headers: {
+          'X-Data-Source': slot.status === 'stale' ? 'cache-stale-while-generating' : 'cache-coalesced',
+          'X-Cache-Status': slot.status === 'stale' ? 'stale' : 'coalesced',
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+          'X-Cache-Valid-Until': slot.report.cached_until,
+          'X-API-Calls-Made': '0',
+        }
+      });
+    }
+
+    if (slot.status === 'timeout') {
+      return NextResponse.json({
+        error: 'Report generation already in progress',
+        details: `Another request is generating the ${location.name} report; retry shortly`,
+        timestamp: new Date().toISOString()
+      }, { status: 503, headers: { 'Retry-After': '10' } });
+    }
+
+    try {
+      console.log(`🚨 GENERATING FRESH REPORT for ${location.name} - THIS SHOULD BE RARE!`);
+      return await generateFreshReportViaBun(request, startTime, location);
+    } finally {
+      await slot.release();
+    }
 
   } catch (error) {
     console.error('❌ SURF REPORT ERROR:', error);
@@ -81,49 +125,12 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function enhanceReportWithCompassDirections(report: any, surfData: any): any {
-  report.conditions = {
-    ...report.conditions,
-    swell_direction_deg: surfData.details.swell_direction_deg,
-    swell_direction_compass: surfData.details.swell_direction_compass,
-    swell_direction_text: surfData.details.swell_direction_text,
-    swell_direction_description: surfData.details.swell_direction_description,
-    wind_direction_compass: surfData.details.wind_direction_compass,
-    wind_direction_text: surfData.details.wind_direction_text,
-    wind_direction_description: surfData.details.wind_direction_description,
-    tide_height_ft: surfData.details.tide_height_ft,
-    water_temperature_c: surfData.weather.water_temperature_c,
-    water_temperature_f: surfData.weather.water_temperature_f,
-    air_temperature_c: surfData.weather.air_temperature_c,
-    air_temperature_f: surfData.weather.air_temperature_f
-  };
-  return report;
-}
-
 async function generateFreshReportViaBun(request: NextRequest, startTime: number, location: Location) {
   try {
     await ensureInitialized();
 
-    const baseUrl = process.env.NEXT_PUBLIC_API_URL ||
-      (request.headers.get('host') ? `https://${request.headers.get('host')}` : 'http://localhost:3000');
-
-    const surfDataStart = Date.now();
-    const surfDataResponse = await fetch(
-      `${baseUrl}/api/surfability?location=${location.slug}&nocache=${Date.now()}`,
-      {
-        cache: 'no-store',
-        headers: { 'User-Agent': 'SurfLab-AI/1.0', 'X-Force-Fresh': 'true' },
-        signal: AbortSignal.timeout(15000)
-      }
-    );
-    const surfDataTime = Date.now() - surfDataStart;
-
-    if (!surfDataResponse.ok) {
-      throw new Error(`Failed to fetch surf conditions: ${surfDataResponse.status}`);
-    }
-
-    const surfData = await surfDataResponse.json();
-    console.log(`📊 Fresh surf data: ${surfData.location}, wave ${surfData.details.wave_height_ft}ft`);
+    const inputs = await fetchGenerationInputs(getInternalBaseUrl(request.headers.get('host')), location);
+    const { surfData, surfDataTime } = inputs;
 
     const bunServiceUrl = process.env.BUN_SERVICE_URL;
 
@@ -137,16 +144,7 @@ async function generateFreshReportViaBun(request: NextRequest, startTime: number
       const aiResponse = await fetch(`${bunServiceUrl}/generate-surf-report`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json', 'User-Agent': 'SurfLab-Vercel/1.0' },
-        body: JSON.stringify({
-          surfData,
-          apiKey: process.env.BUN_API_SECRET,
-          localKnowledge: location.localKnowledge,
-          voiceDescriptor: location.voiceDescriptor,
-          bestSpots: location.bestSpots,
-          locationName: location.name,
-          lat: location.lat,
-          timezone: location.timezone,
-        }),
+        body: JSON.stringify(buildBunRequestBody(location, inputs)),
         signal: AbortSignal.timeout(30000)
       });
 
@@ -165,32 +163,7 @@ async function generateFreshReportViaBun(request: NextRequest, startTime: number
     } catch (bunError) {
       console.error('⚠️ Bun AI service failed, using local fallback:', bunError);
 
-      const windMph = Math.round(surfData.details.wind_speed_kts * 1.15078);
-      const fallbackReport = createDetailedFallbackReport(surfData, windMph, location);
-
-      report = {
-        id: `surf_fallback_${location.slug}_${Date.now()}_${Math.random().toString(36).substr(2, 4)}`,
-        timestamp: new Date().toISOString(),
-        location: location.slug,
-        report: fallbackReport,
-        conditions: {
-          wave_height_ft: surfData.details.wave_height_ft,
-          wave_period_sec: surfData.details.wave_period_sec,
-          wind_speed_kts: surfData.details.wind_speed_kts,
-          wind_direction_deg: surfData.details.wind_direction_deg,
-          tide_state: surfData.details.tide_state,
-          weather_description: surfData.weather.weather_description,
-          surfability_score: surfData.score
-        },
-        recommendations: {
-          board_type: surfData.details.wave_height_ft >= 3 ? 'Shortboard' : 'Longboard',
-          wetsuit_thickness: surfData.weather.water_temperature_f < 65 ? '3/2mm' : surfData.weather.water_temperature_f < 72 ? 'Spring suit' : undefined,
-          skill_level: surfData.score >= 65 ? 'intermediate' : 'beginner',
-          best_spots: location.bestSpots,
-          timing_advice: 'Check conditions regularly as they change throughout the day'
-        },
-        cached_until: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString()
-      };
+      report = createLocalFallbackReport(location, inputs);
 
       aiTime = Date.now() - aiStart;
       dataSource = 'local-fallback-with-compass';
@@ -222,22 +195,6 @@ async function generateFreshReportViaBun(request: NextRequest, startTime: number
   }
 }
 
-function createDetailedFallbackReport(surfData: any, windMph: number, location: Location): string {
-  const condition = surfData.score >= 70 ? 'good' : surfData.score >= 50 ? 'fair' : 'poor';
-  const waveDesc = surfData.details.wave_height_ft >= 4 ? 'solid'
-    : surfData.details.wave_height_ft >= 2 ? 'fun-sized' : 'small';
-  const swellCompass = surfData.details.swell_direction_compass || 'unknown direction';
-  const windCompass = surfData.details.wind_direction_compass || 'variable';
-  const primarySpot = location.bestSpots[0] || location.name;
-  const secondarySpot = location.bestSpots[1] || location.name;
-
-  const paragraph1 = `${location.name} surf check shows ${waveDesc} ${surfData.details.wave_height_ft}ft waves at ${surfData.details.wave_period_sec} seconds from ${swellCompass} direction, delivering ${surfData.details.wave_period_sec >= 10 ? 'decent power with some long rides' : 'quicker, choppier waves with less push'}. Wind is ${windMph} mph from the ${windCompass} which ${windMph < 10 ? 'is light enough for clean conditions' : 'is creating some texture and bump on the water'}. Tide is ${surfData.details.tide_state.toLowerCase()} and water temp is ${surfData.weather.water_temperature_f}°F.`;
-
-  const paragraph2 = `${surfData.details.wave_height_ft >= 3 ? `Grab your shortboard and head to ${primarySpot} where the waves should have some punch` : `${primarySpot} or ${secondarySpot} should find a way to produce rideable waves on a day like this`}. ${surfData.weather.water_temperature_f < 65 ? 'You\'ll want a 3/2mm or thicker wetsuit for that cold water' : surfData.weather.water_temperature_f < 72 ? 'A spring suit should be fine' : 'Boardshorts or spring suit territory — comfortable water temps'}. ${condition === 'good' ? 'Definitely worth the paddle out today!' : condition === 'fair' ? 'Surfable if you need your wave fix.' : 'Might be better for a beach walk, but conditions can change quickly.'}`;
-
-  return `${paragraph1}\n\n${paragraph2}`;
-}
-
 export async function OPTIONS() {
   return new NextResponse(null, {
     status: 200,
@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getCurrentConditions } from '@/lib/conditions';
+import { SEED_LOCATIONS } from '@/lib/locations';
+import { encodeNdjson, readNdjson } from '@/lib/ndjson';
+import type { ReportStreamEvent, SurfReport } from '@/types/surf-report';
+import { GET } from './route';
+
+// The route imports these statically, so the mocks exist before the imports run
+const { getCachedReport, saveReport, getLocation, claimGeneration } = vi.hoisted(() => ({
+  getCachedReport: vi.fn<() => Promise<SurfReport | null>>(),
+  saveReport: vi.fn<(report: SurfReport) => Promise<void>>(),
+  getLocation: vi.fn(),
+  claimGeneration: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  getCachedReport,
+  saveReport,
+  ensureInitialized: vi.fn(),
+  saveConditionsSnapshot: vi.fn(),
+}));
+
+vi.mock('@/lib/location-registry', () => ({ getLocation }));
+
+vi.mock('@/lib/generation-lock', () => ({ claimGeneration }));
+
+// Real payload from the recorded upstream responses, without the internal HTTP hop
+vi.mock('@/lib/report-generation', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/report-generation')>()),
+  fetchGenerationInputs: async (_baseUrl: string, location: (typeof SEED_LOCATIONS)[number]) => {
+    const result = await getCurrentConditions(location);
+    if (!result.ok) throw new Error(result.unavailable.details);
+    return { surfData: result.payload, sessionWindows: null, surfDataTime: 0 };
+  },
+}));
+
+const location = SEED_LOCATIONS.find(l => l.slug === 'st-augustine')!;
+
+function aiReport(id: string): SurfReport {
+  return {
+    id,
+    location: location.slug,
+    timestamp: new Date().toISOString(),
+    report: 'Clean lines on the sandbars this morning.',
+    conditions: {},
+    recommendations: { best_spots: location.bestSpots, timing_advice: 'Best window: early' },
+    cached_until: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(),
+  } as unknown as SurfReport;
+}
+
+function request() {
+  return new NextRequest(`http://localhost/api/surf-report/stream?location=${location.slug}`, {
+    headers: { host: 'localhost' },
+  });
+}
+
+beforeAll(() => {
+  vi.stubEnv('SURF_PROVIDERS', 'fixture');
+  vi.stubEnv('SURFABILITY_CACHE_BACKEND', 'memory');
+  vi.stubEnv('BUN_SERVICE_URL', 'http://bun.test');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  getCachedReport.mockReset().mockResolvedValue(null);
+  saveReport.mockReset().mockResolvedValue();
+  getLocation.mockReset().mockResolvedValue(location);
+  claimGeneration.mockReset();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('GET /api/surf-report/stream', () => {
+  it('keeps relaying after the client disconnects and saves the AI report, not the fallback', async () => {
+    const release = vi.fn().mockResolvedValue(undefined);
+    claimGeneration.mockResolvedValue({ status: 'acquired', release });
+
+    // The Bun stream sends one partial, then waits for the test to finish it
+    let bun!: ReadableStreamDefaultController<Uint8Array>;
+    const bunBody = new ReadableStream<Uint8Array>({
+      start(controller) {
+        bun = controller;
+        controller.enqueue(encodeNdjson({ type: 'partial', text: 'Clean lines' }));
+      },
+    });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(bunBody)));
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(request());
+    expect(response.headers.get('X-Cache-Status')).toBe('miss');
+
+    const reader = response.body!.getReader();
+    expect((await reader.read()).done).toBe(false);
+    await reader.cancel();
+
+    const saved = new Promise<void>(resolve => saveReport.mockImplementation(async () => resolve()));
+    bun.enqueue(encodeNdjson({ type: 'partial', text: 'Clean lines on the sandbars' }));
+    bun.enqueue(encodeNdjson({ type: 'report', report: aiReport('ai-report') }));
+    bun.close();
+    await saved;
+    await vi.waitFor(() => expect(release).toHaveBeenCalled());
+
+    expect(saveReport).toHaveBeenCalledTimes(1);
+    expect(saveReport.mock.calls[0]![0].id).toBe('ai-report');
+    expect(errors).not.toHaveBeenCalled();
+  });
+
+  it('labels a report served from another request\'s generation by how it was served', async () => {
+    claimGeneration.mockResolvedValue({ status: 'stale', report: aiReport('older-report') });
+
+    const response = await GET(request());
+    const events: ReportStreamEvent[] = [];
+    await readNdjson<ReportStreamEvent>(response.body!, event => events.push(event));
+
+    expect(response.headers.get('X-Cache-Status')).toBe('stale');
+    expect(events).toEqual([{ type: 'report', report: expect.objectContaining({ id: 'older-report' }) }]);
+  });
+
+  it('answers 503 when the location registry cannot be read', async () => {
+    getLocation.mockRejectedValue(new Error('connection refused'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(request());
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ error: 'Location registry unavailable', details: 'connection refused' });
+  });
+});
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedReport, saveReport, ensureInitialized } from '@/lib/db';
+import { DEFAULT_LOCATION_SLUG, type Location } from '@/lib/locations';
+import { getLocation } from '@/lib/location-registry';
+import { claimGeneration, type GenerationSlot } from '@/lib/generation-lock';
+import { checkReportFreshness } from '@/lib/report-freshness';
+import { encodeNdjson, readNdjson } from '@/lib/ndjson';
+import {
+  buildBunRequestBody,
+  createLocalFallbackReport,
+  enhanceReportWithCompassDirections,
+  fetchGenerationInputs,
+  getInternalBaseUrl,
+  MAX_CACHED_REPORT_AGE_HOURS,
+  type GenerationInputs,
+} from '@/lib/report-generation';
+import type { ReportStreamEvent, SurfReport } from '@/types/surf-report';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+const NDJSON_HEADERS = {
+  'Content-Type': 'application/x-ndjson',
+  'Cache-Control': 'no-store',
+};
+
+// Streaming variant of /api/surf-report. A usable cached report comes back as a single
+// `report` event; on a miss the Bun service's text is relayed as `partial` events while
+// it's written, and the finished report is saved before the closing `report` event.
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const slug = request.nextUrl.searchParams.get('location') ?? DEFAULT_LOCATION_SLUG;
+
+  let found: Location | undefined;
+  try {
+    found = await getLocation(slug);
+  } catch (error) {
+    console.error('❌ Location lookup failed before streaming:', error);
+    return NextResponse.json({
+      error: 'Location registry unavailable',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 503, headers: { 'Retry-After': '10' } });
+  }
+
+  if (!found) {
+    return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
+  }
+  const location = found;
+
+  let cachedReport: SurfReport | null = null;
+  try {
+    cachedReport = await getCachedReport(slug);
+    if (cachedReport) {
+      const ageHours = (Date.now() - new Date(cachedReport.timestamp).getTime()) / (1000 * 60 * 60);
+      const freshness = ageHours < MAX_CACHED_REPORT_AGE_HOURS
+        ? await checkReportFreshness(location, cachedReport)
+        : null;
+      if (freshness && !freshness.current) {
+        console.log(`🌩️ Cached report invalidated (${location.name}): ${freshness.reasons.join('; ')}`);
+      }
+
+      if (freshness?.current) {
+        return singleEventResponse({ type: 'report', report: cachedReport }, 'hit', startTime);
+      }
+    }
+  } catch (error) {
+    // Generation below still works without the cache
+    console.error('⚠️ Cache lookup failed before streaming generation:', error);
+  }
+
+  // Only one request per location generates; the rest get its report or the stale one.
+  // Claimed before responding so X-Cache-Status says which of those this request got.
+  let slot: GenerationSlot;
+  try {
+    slot = await claimGeneration(slug, cachedReport);
+  } catch (error) {
+    console.error('❌ Claiming report generation failed:', error);
+    return singleEventResponse(await emergencyEvent(slug, error), 'miss', startTime);
+  }
+
+  if (slot.status === 'stale' || slot.status === 'ready') {
+    const event: ReportStreamEvent = { type: 'report', report: slot.report };
+    return singleEventResponse(event, slot.status === 'stale' ? 'stale' : 'coalesced', startTime);
+  }
+  if (slot.status === 'timeout') {
+    const event: ReportStreamEvent = { type: 'error', error: `Another request is generating the ${location.name} report; retry shortly` };
+    return singleEventResponse(event, 'miss', startTime);
+  }
+
+  const host = request.headers.get('host');
+  const release = slot.release;
+  // Set once the client goes away. Generation carries on regardless, so the report
+  // it was waiting for is still saved for the next visitor.
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ReportStreamEvent) => {
+        if (!cancelled) controller.enqueue(encodeNdjson(event));
+      };
+      try {
+        console.log(`🚨 STREAMING FRESH REPORT for ${location.name}`);
+        const report = await streamFreshReport(location, host, send);
+        send({ type: 'report', report });
+      } catch (error) {
+        console.error('❌ Streaming surf report failed:', error);
+        send(await emergencyEvent(slug, error));
+      } finally {
+        await release();
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: { ...NDJSON_HEADERS, 'X-Cache-Status': 'miss', 'X-Location': location.slug },
+  });
+}
+
+function singleEventResponse(event: ReportStreamEvent, cacheStatus: string, startTime: number): Response {
+  return new Response(encodeNdjson(event), {
+    headers: {
+      ...NDJSON_HEADERS,
+      'X-Cache-Status': cacheStatus,
+      'X-Response-Time': `${Date.now() - startTime}ms`,
+    },
+  });
+}
+
+// Any cached report regardless of age, or the error if there's none
+async function emergencyEvent(slug: string, error: unknown): Promise<ReportStreamEvent> {
+  const emergencyCache = await getCachedReport(slug).catch(() => null);
+  if (emergencyCache) {
+    console.log('🆘 Using emergency cache fallback');
+    return { type: 'report', report: emergencyCache };
+  }
+  return { type: 'error', error: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+async function streamFreshReport(
+  location: Location,
+  host: string | null,
+  send: (event: ReportStreamEvent) => void
+): Promise<SurfReport> {
+  await ensureInitialized();
+
+  const inputs = await fetchGenerationInputs(getInternalBaseUrl(host), location);
+
+  let report: SurfReport;
+  try {
+    report = await relayBunStream(location, inputs, send);
+    console.log('✅ Got successful streamed Bun AI response');
+  } catch (bunError) {
+    console.error('⚠️ Bun AI stream failed, using local fallback:', bunError);
+    report = createLocalFallbackReport(location, inputs);
+  }
+
+  // Ensure the location field uses the slug as cache key
+  report.location = location.slug;
+  report = enhanceReportWithCompassDirections(report, inputs.surfData);
+
+  await saveReport(report);
+  console.log(`✅ Report saved: ${report.id} (${location.name})`);
+  return report;
+}
+
+async function relayBunStream(
+  location: Location,
+  inputs: GenerationInputs,
+  send: (event: ReportStreamEvent) => void
+): Promise<SurfReport> {
+  const bunServiceUrl = process.env.BUN_SERVICE_URL;
+  if (!bunServiceUrl) throw new Error('BUN_SERVICE_URL not configured — using local fallback');
+
+  const response = await fetch(`${bunServiceUrl}/generate-surf-report/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'SurfLab-Vercel/1.0' },
+    body: JSON.stringify(buildBunRequestBody(location, inputs)),
+    signal: AbortSignal.timeout(45000),
+  });
+
+  if (!response.ok || !response.body) throw new Error(`Bun AI service failed: ${response.status}`);
+
+  // Assigned inside the callback, so declared loosely to keep TS from narrowing them to null
+  let report = null as SurfReport | null;
+  let streamError = null as string | null;
+
+  await readNdjson<ReportStreamEvent>(response.body, event => {
+    if (event.type === 'partial') send(event);
+    else if (event.type === 'report') report = event.report;
+    else streamError = event.error;
+  });
+
+  if (!report) throw new Error(streamError ?? 'Bun AI stream ended without a report');
+  return report;
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
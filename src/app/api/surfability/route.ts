@@ -1,361 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getLocation, DEFAULT_LOCATION_SLUG, type Location } from '@/lib/locations';
+import { DEFAULT_LOCATION_SLUG } from '@/lib/locations';
+import { getLocation } from '@/lib/location-registry';
+import { fetchMarineConditions } from '@/lib/providers';
+import { getCachedCurrentConditions } from '@/lib/conditions';
+import { getCacheBackend, getCachePolicy } from '@/lib/conditions-cache';
 
 export const dynamic = 'force-dynamic';
 
-// Types
-interface SurfData {
-  waveHeight: number;
-  wavePeriod: number;
-  swellDirection: number;
-  windDirection: number;
-  windSpeed: number;
-  tide: string;
-  tideHeight?: number;
-}
-
-interface TideData {
-  currentHeight: number;
-  state: string;
-  nextHigh: { time: string; height: number; timestamp: string } | null;
-  nextLow: { time: string; height: number; timestamp: string } | null;
-  previousHigh: { time: string; height: number; timestamp: string } | null;
-  previousLow: { time: string; height: number; timestamp: string } | null;
-}
-
-// Weather code descriptions
-const weatherDescriptions: { [key: number]: string } = {
-  0: "Clear sky",
-  1: "Mainly clear",
-  2: "Partly cloudy",
-  3: "Overcast",
-  45: "Fog",
-  48: "Depositing rime fog",
-  51: "Light drizzle",
-  53: "Moderate drizzle",
-  55: "Dense drizzle",
-  61: "Slight rain",
-  63: "Moderate rain",
-  65: "Heavy rain",
-  80: "Slight rain showers",
-  81: "Moderate rain showers",
-  82: "Violent rain showers",
-  95: "Thunderstorm",
-  96: "Thunderstorm with slight hail",
-  99: "Thunderstorm with heavy hail"
-};
-
-function degreesToCompass(degrees: number): string {
-  if (degrees < 0 || degrees > 360) {
-    degrees = ((degrees % 360) + 360) % 360;
-  }
-  const directions = [
-    'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
-    'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'
-  ];
-  const index = Math.round(degrees / 22.5) % 16;
-  return directions[index];
-}
-
-// Generic: is wind offshore for this coast orientation?
-function isOffshoreWind(windDirection: number, coastFacingDeg: number): boolean {
-  const offshoreCenter = (coastFacingDeg + 180) % 360;
-  let diff = Math.abs(windDirection - offshoreCenter);
-  if (diff > 180) diff = 360 - diff;
-  return diff <= 90;
-}
-
-function getWindDescription(windDirection: number, windSpeed: number, coastFacingDeg: number): string {
-  const compass = degreesToCompass(windDirection);
-  const offshore = isOffshoreWind(windDirection, coastFacingDeg);
-  const windType = offshore ? 'offshore' : 'onshore';
-
-  let quality: string;
-  if (offshore) {
-    if (windSpeed < 5) quality = 'glassy conditions';
-    else if (windSpeed < 15) quality = 'clean offshore conditions';
-    else if (windSpeed < 25) quality = 'strong offshore - may be difficult to paddle out';
-    else quality = 'very strong offshore - challenging conditions';
-  } else {
-    if (windSpeed < 5) quality = 'light onshore - fairly clean';
-    else if (windSpeed < 10) quality = 'moderate onshore - some chop';
-    else if (windSpeed < 20) quality = 'strong onshore - choppy conditions';
-    else quality = 'very strong onshore - blown out';
-  }
-
-  return `${compass} ${windType} (${quality})`;
-}
-
-// Is this swell direction favorable for the coast orientation?
-function getSwellDirectionDescription(degrees: number, coastFacingDeg: number): string {
-  const compass = degreesToCompass(degrees);
-  let diff = Math.abs(degrees - coastFacingDeg);
-  if (diff > 180) diff = 360 - diff;
-
-  let assessment: string;
-  if (diff <= 45) assessment = 'direct, favorable swell angle';
-  else if (diff <= 90) assessment = 'oblique but workable swell angle';
-  else if (diff <= 135) assessment = 'cross-swell — limited power';
-  else assessment = 'backside swell — unfavorable';
-
-  return `${compass} (${assessment})`;
-}
-
-// Surf rating phrases
-const surfRatings = {
-  excellent: ["Epic", "Firing", "Going Off", "Pumping", "Primo", "Cranking"],
-  good: ["Fun", "Solid", "Decent", "Surfable", "Worth It", "Rideable"],
-  marginal: ["Marginal", "Questionable", "Sketchy", "Iffy", "Meh", "Barely"],
-  poor: ["Flat", "Blown Out", "Junk", "Trash", "Hopeless", "Netflix Day"]
-};
-
-function getRandomRating(category: keyof typeof surfRatings): string {
-  const options = surfRatings[category];
-  return options[Math.floor(Math.random() * options.length)];
-}
-
-function calculateSurfability(data: SurfData) {
-  let score = 0;
-
-  if (data.waveHeight >= 2 && data.waveHeight <= 8) score += 25;
-  else if (data.waveHeight >= 1.5 && data.waveHeight < 2) score += 15;
-
-  if (data.wavePeriod >= 10) score += 25;
-  else if (data.wavePeriod >= 7) score += 20;
-  else if (data.wavePeriod >= 5) score += 10;
-
-  if (data.swellDirection >= 45 && data.swellDirection <= 135) score += 20;
-  else if (data.swellDirection >= 30 && data.swellDirection <= 150) score += 10;
-
-  if (data.windSpeed < 5) score += 15;
-  else if (data.windDirection >= 225 && data.windDirection <= 315) {
-    if (data.windSpeed <= 15) score += 20;
-    else score += 10;
-  } else if (data.windSpeed < 10) score += 10;
-
-  if (data.tide === 'Mid' || data.tide === 'Rising' || data.tide === 'Falling') score += 10;
-
-  if (data.tideHeight !== undefined) {
-    if (data.tideHeight >= 0.5 && data.tideHeight <= 2.5) score += 5;
-  }
-
-  let rating: string;
-  let funRating: string;
-
-  if (score >= 80) {
-    rating = 'Excellent';
-    funRating = getRandomRating('excellent');
-  } else if (score >= 65) {
-    rating = 'Good';
-    funRating = getRandomRating('good');
-  } else if (score >= 45) {
-    rating = 'Marginal';
-    funRating = getRandomRating('marginal');
-  } else {
-    rating = 'Poor';
-    funRating = getRandomRating('poor');
-  }
-
-  return { score, surfable: score >= 45, rating, funRating };
-}
-
-function calculateTideState(
-  currentHeight: number,
-  nextHigh: { time: string; height: number; timestamp: string } | null,
-  nextLow: { time: string; height: number; timestamp: string } | null,
-  previousHigh: { time: string; height: number; timestamp: string } | null,
-  previousLow: { time: string; height: number; timestamp: string } | null
-): string {
-  const now = new Date();
-  const nextHighTime = nextHigh ? new Date(nextHigh.timestamp) : null;
-  const nextLowTime = nextLow ? new Date(nextLow.timestamp) : null;
-  const timeToNextHigh = nextHighTime ? nextHighTime.getTime() - now.getTime() : Infinity;
-  const timeToNextLow = nextLowTime ? nextLowTime.getTime() - now.getTime() : Infinity;
-
-  if (nextHighTime && nextLowTime) {
-    if (timeToNextHigh < timeToNextLow) {
-      const range = nextHigh && previousLow ? Math.abs(nextHigh.height - previousLow.height) : 3;
-      const midPoint = nextHigh && previousLow ? (nextHigh.height + previousLow.height) / 2 : currentHeight;
-      if (Math.abs(currentHeight - midPoint) < range * 0.25) return 'Mid Rising';
-      if (currentHeight < midPoint) return 'Low Rising';
-      return 'High Rising';
-    } else {
-      const range = previousHigh && nextLow ? Math.abs(previousHigh.height - nextLow.height) : 3;
-      const midPoint = previousHigh && nextLow ? (previousHigh.height + nextLow.height) / 2 : currentHeight;
-      if (Math.abs(currentHeight - midPoint) < range * 0.25) return 'Mid Falling';
-      if (currentHeight > midPoint) return 'High Falling';
-      return 'Low Falling';
-    }
-  }
-
-  if (nextHighTime && timeToNextHigh < 6 * 60 * 60 * 1000) {
-    return currentHeight > 1.5 ? 'High Rising' : 'Rising';
-  } else if (nextLowTime && timeToNextLow < 6 * 60 * 60 * 1000) {
-    return currentHeight < 1.0 ? 'Low Falling' : 'Falling';
-  }
-
-  return currentHeight > 2.0 ? 'High' : currentHeight < 1.0 ? 'Low' : 'Mid';
-}
-
-function findCurrentMarineData(marineData: any) {
-  console.log('🔍 Processing marine data...');
-
-  if (!marineData?.hourly?.time) {
-    throw new Error('No marine data available');
-  }
-
-  const now = new Date();
-  const times = marineData.hourly.time;
-
-  let closestIndex = 0;
-  let smallestDiff = Infinity;
-
-  for (let i = 0; i < times.length; i++) {
-    const diff = Math.abs(new Date(times[i]).getTime() - now.getTime());
-    if (diff < smallestDiff) {
-      smallestDiff = diff;
-      closestIndex = i;
-    }
-  }
-
-  const waveHeight = marineData.hourly.wave_height?.[closestIndex];
-  const wavePeriod = marineData.hourly.wave_period?.[closestIndex];
-  const swellDirection = marineData.hourly.swell_wave_direction?.[closestIndex];
-  const waterTemp = marineData.hourly.sea_surface_temperature?.[closestIndex];
-
-  if (waveHeight === null || waveHeight === undefined || isNaN(waveHeight)) throw new Error(`Invalid wave height: ${waveHeight}`);
-  if (wavePeriod === null || wavePeriod === undefined || isNaN(wavePeriod)) throw new Error(`Invalid wave period: ${wavePeriod}`);
-  if (swellDirection === null || swellDirection === undefined || isNaN(swellDirection)) throw new Error(`Invalid swell direction: ${swellDirection}`);
-  if (waterTemp === null || waterTemp === undefined || isNaN(waterTemp)) throw new Error(`Invalid water temperature: ${waterTemp}`);
-  if (waveHeight < 0 || waveHeight > 30) throw new Error(`Wave height ${waveHeight}m outside reasonable bounds`);
-  if (wavePeriod < 2 || wavePeriod > 25) throw new Error(`Wave period ${wavePeriod}s outside reasonable bounds`);
-  if (waterTemp < -5 || waterTemp > 40) throw new Error(`Water temperature ${waterTemp}°C outside reasonable bounds`);
-
-  return {
-    waveHeight: waveHeight * 3.28084,
-    wavePeriod,
-    swellDirection,
-    waterTemp
-  };
-}
-
-async function fetchMarineData(lat: number, lon: number, timezone: string) {
-  const params = `latitude=${lat}&longitude=${lon}&hourly=wave_height,wave_period,swell_wave_direction,sea_surface_temperature&timezone=${encodeURIComponent(timezone)}`;
-
-  try {
-    const res = await fetch(
-      `https://api.open-meteo.com/v1/marine?${params}`,
-      { cache: 'no-store', signal: AbortSignal.timeout(12000) }
-    );
-    if (res.ok) return findCurrentMarineData(await res.json());
-  } catch (_) {}
-
-  try {
-    const res = await fetch(
-      `https://marine-api.open-meteo.com/v1/marine?${params}`,
-      { cache: 'no-store', signal: AbortSignal.timeout(12000) }
-    );
-    if (res.ok) return findCurrentMarineData(await res.json());
-  } catch (_) {}
-
-  throw new Error('All marine data sources failed - no real ocean data available');
-}
-
-async function fetchTideData(stationId: string): Promise<TideData> {
-  try {
-    const today = new Date();
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    const formatDate = (date: Date) => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}${month}${day}`;
-    };
-
-    const currentUrl = `https://api.tidesandcurrents.noaa.gov/api/prod/datagetter?date=latest&station=${stationId}&product=water_level&datum=MLLW&time_zone=lst_ldt&units=english&application=SurfLab&format=json`;
-    const predictionsUrl = `https://api.tidesandcurrents.noaa.gov/api/prod/datagetter?begin_date=${formatDate(yesterday)}&end_date=${formatDate(tomorrow)}&station=${stationId}&product=predictions&datum=MLLW&time_zone=lst_ldt&interval=hilo&units=english&application=SurfLab&format=json`;
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-
-    const [currentRes, predictionsRes] = await Promise.all([
-      fetch(currentUrl, { cache: 'no-store', signal: controller.signal }),
-      fetch(predictionsUrl, { cache: 'no-store', signal: controller.signal })
-    ]);
-
-    clearTimeout(timeoutId);
-
-    let currentHeight = 0;
-    let nextHigh: { time: string; height: number; timestamp: string } | null = null;
-    let nextLow: { time: string; height: number; timestamp: string } | null = null;
-    let previousHigh: { time: string; height: number; timestamp: string } | null = null;
-    let previousLow: { time: string; height: number; timestamp: string } | null = null;
-
-    if (currentRes.ok) {
-      const currentData = await currentRes.json();
-      if (currentData.data?.length > 0) {
-        currentHeight = parseFloat(currentData.data[0].v);
-      }
-    }
-
-    if (predictionsRes.ok) {
-      const predictionsData = await predictionsRes.json();
-      if (predictionsData.predictions?.length > 0) {
-        const now = new Date();
-        const allPredictions = predictionsData.predictions.map((p: any) => ({
-          ...p,
-          time: new Date(p.t),
-          parsedHeight: parseFloat(p.v),
-          timestamp: p.t
-        }));
-
-        const pastPredictions = allPredictions.filter((p: any) => p.time < now);
-        const futurePredictions = allPredictions.filter((p: any) => p.time >= now);
-
-        for (let i = pastPredictions.length - 1; i >= 0; i--) {
-          const prediction = pastPredictions[i];
-          if (prediction.type === 'H' && !previousHigh) {
-            previousHigh = { time: prediction.t, height: prediction.parsedHeight, timestamp: prediction.timestamp };
-          } else if (prediction.type === 'L' && !previousLow) {
-            previousLow = { time: prediction.t, height: prediction.parsedHeight, timestamp: prediction.timestamp };
-          }
-          if (previousHigh && previousLow) break;
-        }
-
-        for (const prediction of futurePredictions) {
-          if (prediction.type === 'H' && !nextHigh) {
-            nextHigh = { time: prediction.t, height: prediction.parsedHeight, timestamp: prediction.timestamp };
-          } else if (prediction.type === 'L' && !nextLow) {
-            nextLow = { time: prediction.t, height: prediction.parsedHeight, timestamp: prediction.timestamp };
-          }
-          if (nextHigh && nextLow) break;
-        }
-      }
-    }
-
-    const state = calculateTideState(currentHeight, nextHigh, nextLow, previousHigh, previousLow);
-
-    if (currentHeight === 0) {
-      currentHeight = nextHigh && nextLow ? (nextHigh.height + nextLow.height) / 2 : 1.5;
-    }
-
-    return { currentHeight, state, nextHigh, nextLow, previousHigh, previousLow };
-  } catch (error) {
-    console.error('Error fetching tide data:', error);
-    throw new Error('Failed to fetch tide data');
-  }
-}
-
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
 
   try {
     const slug = request.nextUrl.searchParams.get('location') ?? DEFAULT_LOCATION_SLUG;
-    const location = getLocation(slug);
+    const location = await getLocation(slug);
 
     if (!location) {
       return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
@@ -366,132 +23,37 @@ export async function GET(request: NextRequest) {
     // Debug parameter
     if (request.nextUrl.searchParams.get('debug') === 'water-temp') {
       try {
-        const debugResult = await fetchMarineData(location.lat, location.lon, location.timezone);
-        return NextResponse.json({ debug: true, waterTempResult: debugResult, timestamp: new Date().toISOString() });
+        const debugResult = await fetchMarineConditions(location);
+        return NextResponse.json({ debug: true, waterTempResult: debugResult.data, provider: debugResult.provider, timestamp: new Date().toISOString() });
       } catch (error) {
         return NextResponse.json({ debug: true, error: error instanceof Error ? error.message : 'Unknown error' }, { status: 503 });
       }
     }
 
-    // Step 1: Marine data
-    let marineData;
-    try {
-      marineData = await fetchMarineData(location.lat, location.lon, location.timezone);
-    } catch (error) {
-      return NextResponse.json({
-        error: 'Real marine conditions unavailable',
-        details: error instanceof Error ? error.message : 'Unknown marine data error',
-        timestamp: new Date().toISOString(),
-        retryAfter: '5-15 minutes'
-      }, { status: 503 });
-    }
-
-    // Step 2: Tide data
-    let tideData;
-    try {
-      tideData = await fetchTideData(location.noaaStationId);
-    } catch (error) {
-      return NextResponse.json({
-        error: 'Real tide conditions unavailable',
-        details: error instanceof Error ? error.message : 'Unknown tide error',
-        timestamp: new Date().toISOString()
-      }, { status: 503 });
-    }
-
-    // Step 3: Weather data
-    const weatherRes = await fetch(
-      `https://api.open-meteo.com/v1/forecast?latitude=${location.lat}&longitude=${location.lon}&current=temperature_2m,weather_code,wind_speed_10m,wind_direction_10m&timezone=${encodeURIComponent(location.timezone)}&forecast_days=1`,
-      { cache: 'no-store', signal: AbortSignal.timeout(10000) }
-    );
+    // ?fresh=true skips the cache (and refills it); ?nocache= is only a CDN buster
+    const bypass = request.nextUrl.searchParams.get('fresh') === 'true';
+    const lookup = await getCachedCurrentConditions(location, bypass);
+    const result = lookup.value;
 
-    if (!weatherRes.ok) {
-      return NextResponse.json({
-        error: 'Weather conditions unavailable',
-        details: `Weather API returned ${weatherRes.status}`,
-        timestamp: new Date().toISOString()
-      }, { status: 503 });
+    if (!result.ok) {
+      return NextResponse.json(result.unavailable, { status: 503 });
     }
 
-    const weatherData = await weatherRes.json();
-
-    const windSpeed = weatherData.current.wind_speed_10m * 0.539957; // m/s → knots
-    const windDirection = weatherData.current.wind_direction_10m;
-
-    const swellCompass = degreesToCompass(marineData.swellDirection);
-    const windCompass = degreesToCompass(windDirection);
-    const windDescription = getWindDescription(windDirection, windSpeed, location.coastFacingDeg);
-    const swellDescription = getSwellDirectionDescription(marineData.swellDirection, location.coastFacingDeg);
-
-    const currentSurfData: SurfData = {
-      waveHeight: marineData.waveHeight,
-      wavePeriod: marineData.wavePeriod,
-      swellDirection: marineData.swellDirection,
-      windDirection,
-      windSpeed,
-      tide: tideData.state,
-      tideHeight: tideData.currentHeight,
-    };
-
-    const { score, surfable, rating, funRating } = calculateSurfability(currentSurfData);
-
-    const formatTideTime = (tideEvent: { time: string; height: number; timestamp: string } | null) => {
-      if (!tideEvent) return null;
-      const time = new Date(tideEvent.timestamp);
-      return {
-        time: time.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
-        height: Math.round(tideEvent.height * 10) / 10,
-        timestamp: tideEvent.timestamp
-      };
-    };
-
+    const { ttlSeconds, staleSeconds } = getCachePolicy();
     const responseTime = Date.now() - startTime;
-
-    return NextResponse.json({
-      location: location.name,
-      locationSlug: location.slug,
-      timestamp: new Date().toISOString(),
-      surfable,
-      rating: funRating,
-      score,
-      goodSurfDuration: "Based on real-time conditions",
-      dataQuality: 'real-time-verified',
-      details: {
-        wave_height_ft: Math.round(marineData.waveHeight * 10) / 10,
-        wave_period_sec: Math.round(marineData.wavePeriod * 10) / 10,
-        swell_direction_deg: Math.round(marineData.swellDirection),
-        swell_direction_compass: swellCompass,
-        swell_direction_text: `${swellCompass} swell (from ${swellCompass})`,
-        swell_direction_description: swellDescription,
-        wind_direction_deg: Math.round(windDirection),
-        wind_direction_compass: windCompass,
-        wind_direction_text: `${windCompass} wind (from ${windCompass})`,
-        wind_direction_description: windDescription,
-        wind_speed_kts: Math.round(windSpeed * 10) / 10,
-        tide_state: tideData.state,
-        tide_height_ft: Math.round(tideData.currentHeight * 10) / 10,
-        data_source: 'Real-time APIs (no estimates or fallbacks)'
-      },
-      weather: {
-        air_temperature_c: Math.round(weatherData.current.temperature_2m),
-        air_temperature_f: Math.round(weatherData.current.temperature_2m * 9 / 5 + 32),
-        water_temperature_c: Math.round(marineData.waterTemp),
-        water_temperature_f: Math.round(marineData.waterTemp * 9 / 5 + 32),
-        weather_code: weatherData.current.weather_code,
-        weather_description: weatherDescriptions[weatherData.current.weather_code] || 'Unknown conditions'
-      },
-      tides: {
-        current_height_ft: Math.round(tideData.currentHeight * 10) / 10,
-        state: tideData.state,
-        next_high: formatTideTime(tideData.nextHigh),
-        next_low: formatTideTime(tideData.nextLow),
-        previous_high: formatTideTime(tideData.previousHigh),
-        previous_low: formatTideTime(tideData.previousLow),
-        station: `NOAA ${location.noaaStationId} (${location.name})`
-      },
-      _debug: {
-        responseTime: `${responseTime}ms`,
-        dataSourcesUsed: ['Open-Meteo Marine', 'NOAA Tides', 'Open-Meteo Weather'],
-        noFallbacksUsed: true
+    const fromUpstream = lookup.status === 'miss' || lookup.status === 'bypass';
+    console.log(`📦 Conditions cache ${lookup.status.toUpperCase()} (${location.name})`);
+
+    return NextResponse.json(result.payload, {
+      headers: {
+        'X-Data-Source': fromUpstream ? 'upstream' : `cache-${lookup.status}`,
+        'X-Cache-Status': lookup.status,
+        'X-Cache-Backend': getCacheBackend().name,
+        'X-Response-Time': `${responseTime}ms`,
+        'X-Cache-Age-Seconds': `${Math.round((Date.now() - lookup.storedAt) / 1000)}`,
+        'X-Cache-Valid-Until': new Date(lookup.validUntil).toISOString(),
+        'X-API-Calls-Made': fromUpstream ? '3' : '0',
+        'Cache-Control': `public, max-age=${ttlSeconds}, stale-while-revalidate=${staleSeconds}`
       }
     });
 
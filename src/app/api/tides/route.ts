@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LOCATION_SLUG } from '@/lib/locations';
+import { getLocation } from '@/lib/location-registry';
+import { getTideCurve, MAX_TIDE_CURVE_DAYS } from '@/lib/tide-curve';
+
+export const dynamic = 'force-dynamic';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function parseDateParam(value: string | null, fallback: Date): Date | null {
+  if (value === null) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const params = request.nextUrl.searchParams;
+
+  const slug = params.get('location') ?? DEFAULT_LOCATION_SLUG;
+  const location = await getLocation(slug);
+
+  if (!location) {
+    return NextResponse.json({ error: `Unknown location: ${slug}` }, { status: 400 });
+  }
+
+  // Default: half a day back (so "now" sits on the chart with history) and a day and a half ahead
+  const from = parseDateParam(params.get('from'), new Date(startTime - 12 * HOUR_MS));
+  const to = parseDateParam(params.get('to'), new Date(startTime + 36 * HOUR_MS));
+
+  if (!from || !to) {
+    return NextResponse.json({ error: 'from and to must be ISO 8601 timestamps' }, { status: 400 });
+  }
+  if (to <= from || to.getTime() - from.getTime() > MAX_TIDE_CURVE_DAYS * 24 * HOUR_MS) {
+    return NextResponse.json(
+      { error: `to must be after from, and the range no longer than ${MAX_TIDE_CURVE_DAYS} days` },
+      { status: 400 }
+    );
+  }
+
+  const intervalParam = params.get('interval');
+  if (intervalParam !== null && intervalParam !== '6' && intervalParam !== 'h') {
+    return NextResponse.json({ error: "interval must be '6' (six-minute) or 'h' (hourly)" }, { status: 400 });
+  }
+
+  const stepParam = params.get('step');
+  const stepMinutes = stepParam === null ? undefined : Number(stepParam);
+  if (stepMinutes !== undefined && (!Number.isInteger(stepMinutes) || stepMinutes < 1 || stepMinutes > 60)) {
+    return NextResponse.json({ error: 'step must be a whole number of minutes between 1 and 60' }, { status: 400 });
+  }
+
+  try {
+    const curve = await getTideCurve(location, {
+      from,
+      to,
+      interval: intervalParam ?? undefined,
+      stepMinutes,
+    });
+    const responseTime = Date.now() - startTime;
+
+    return NextResponse.json({
+      location: location.name,
+      locationSlug: location.slug,
+      timezone: location.timezone,
+      station: `NOAA ${location.noaaStationId}`,
+      datum: 'MLLW',
+      units: 'ft',
+      from: from.toISOString(),
+      to: to.toISOString(),
+      ...curve,
+      _debug: {
+        responseTime: `${responseTime}ms`,
+        curvePoints: curve.curve.length,
+        observedPoints: curve.observed.length,
+      }
+    }, {
+      headers: {
+        'X-Response-Time': `${responseTime}ms`,
+        'Cache-Control': 'public, max-age=300, stale-while-revalidate=900'
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Tide curve failed for ${location.name}:`, error);
+    return NextResponse.json({
+      error: 'Tide predictions unavailable',
+      details: error instanceof Error ? error.message : 'Unknown tide error',
+      timestamp: new Date().toISOString()
+    }, { status: 503 });
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -4,24 +4,29 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { motion } from 'motion/react';
-import { LOCATIONS } from '../lib/locations';
+import type { LocationSummary } from '../lib/locations';
 
 const STORAGE_KEY = 'surf_location';
 
-export function LocationGate() {
+interface Props {
+  locations: LocationSummary[];
+  favorites?: string[];
+}
+
+export function LocationGate({ locations, favorites = [] }: Props) {
   const router = useRouter();
   const [status, setStatus] = useState<'checking' | 'redirecting' | 'pick'>('checking');
   const [pendingSlug, setPendingSlug] = useState<string | null>(null);
 
   useEffect(() => {
     const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved && LOCATIONS.find(l => l.slug === saved)) {
+    if (saved && locations.find(l => l.slug === saved)) {
       setStatus('redirecting');
       router.replace(`/${saved}`);
     } else {
       setStatus('pick');
     }
-  }, [router]);
+  }, [router, locations]);
 
   useEffect(() => {
     if (!pendingSlug) return;
@@ -61,7 +66,14 @@ export function LocationGate() {
           className="w-full py-3 pl-4 pr-10 border border-gray-200 rounded-xl text-base font-mono text-gray-700 bg-white appearance-none cursor-pointer hover:border-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-100 transition-colors"
         >
           <option value="" disabled>Where are you surfing?</option>
-          {LOCATIONS.map(loc => (
+          {favorites.length > 0 && (
+            <optgroup label="Favorites">
+              {locations.filter(loc => favorites.includes(loc.slug)).map(loc => (
+                <option key={loc.slug} value={loc.slug}>{loc.name}</option>
+              ))}
+            </optgroup>
+          )}
+          {locations.filter(loc => !favorites.includes(loc.slug)).map(loc => (
             <option key={loc.slug} value={loc.slug}>{loc.name}</option>
           ))}
         </select>
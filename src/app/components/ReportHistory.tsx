@@ -0,0 +1,104 @@
+import Link from 'next/link';
+import type { ObservedComparison, ReportHistoryDay, ReportHistoryEntry } from '../lib/report-history';
+
+interface Props {
+  locationSlug: string;
+  locationName: string;
+  timezone: string;
+  date: string;
+  history: ReportHistoryDay | null;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatDelta(value: number, unit = ''): string {
+  return `${value > 0 ? '+' : ''}${value}${unit}`;
+}
+
+function Comparison({ observed }: { observed: ObservedComparison | null }) {
+  if (!observed) {
+    return <p className="text-xs text-gray-400">No archived conditions for the hours after this report.</p>;
+  }
+  const tone = Math.abs(observed.score_delta) <= 5 ? 'text-emerald-700' : observed.score_delta > 0 ? 'text-sky-700' : 'text-amber-700';
+  return (
+    <p className="text-xs text-gray-500">
+      What showed up next: {observed.wave_height_ft}ft, {observed.wind_speed_kts}kt, score {observed.score}{' '}
+      <span className={tone}>({formatDelta(observed.score_delta)} score, {formatDelta(observed.wave_height_delta_ft, 'ft')})</span>
+    </p>
+  );
+}
+
+function ReportEntry({ entry, timezone }: { entry: ReportHistoryEntry; timezone: string }) {
+  const time = new Date(entry.timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: timezone });
+  const { conditions } = entry;
+  return (
+    <li className="border border-gray-200 rounded-xl px-4 py-4">
+      <div className="flex items-baseline justify-between gap-4">
+        <p className="text-sm font-semibold text-gray-800">{time}</p>
+        <p className="text-xs text-gray-500">
+          {conditions.wave_height_ft}ft @ {conditions.wave_period_sec}s · {conditions.wind_speed_kts}kt · score {conditions.surfability_score}
+        </p>
+      </div>
+      <p className="mt-2 text-sm text-gray-700 leading-relaxed whitespace-pre-wrap font-sans">{entry.report}</p>
+      <div className="mt-3">
+        <Comparison observed={entry.observed} />
+      </div>
+    </li>
+  );
+}
+
+export function ReportHistory({ locationSlug, locationName, timezone, date, history }: Props) {
+  const dayLink = (d: string) => `/${locationSlug}/history?date=${d}`;
+
+  return (
+    <main className="mx-auto max-w-3xl w-full px-4 py-8 font-mono">
+      <Link href={`/${locationSlug}`} className="text-xs text-gray-400 underline underline-offset-2 decoration-dashed hover:text-gray-600">
+        ← Today&apos;s report
+      </Link>
+      <h1 className="mt-4 text-xl font-semibold text-gray-900">{locationName} — past reports</h1>
+
+      <nav className="mt-4 flex items-center justify-between text-sm">
+        {history ? <Link href={dayLink(history.previous_date)} className="text-gray-500 hover:text-gray-800">← Previous day</Link> : <span />}
+        <span className="text-gray-700">{formatDay(date)}</span>
+        {history?.next_date ? <Link href={dayLink(history.next_date)} className="text-gray-500 hover:text-gray-800">Next day →</Link> : <span />}
+      </nav>
+
+      {!history ? (
+        <p className="mt-8 text-sm text-gray-500">Report history is unavailable right now.</p>
+      ) : (
+        <>
+          {history.reports.length === 0 ? (
+            <p className="mt-8 text-sm text-gray-500">No reports were generated on this day.</p>
+          ) : (
+            <ul className="mt-6 space-y-4">
+              {history.reports.map(entry => <ReportEntry key={entry.id} entry={entry} timezone={timezone} />)}
+            </ul>
+          )}
+
+          {history.days.length > 0 && (
+            <section className="mt-10">
+              <p className="text-xs uppercase tracking-widest text-gray-400">Days with reports</p>
+              <ul className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {history.days.map(day => (
+                  <li key={day.date}>
+                    <Link
+                      href={dayLink(day.date)}
+                      className={`block border rounded-lg px-3 py-2 text-xs transition-colors ${
+                        day.date === date ? 'border-gray-400 bg-gray-100 text-gray-900' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      <span className="block font-semibold">{day.date}</span>
+                      {day.count} report{day.count === 1 ? '' : 's'} · best {day.max_score}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
@@ -1,14 +1,19 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { AnimatePresence, motion } from 'motion/react';
 import { useSurfReportOptimized } from '../hooks/useSurfReportOptimized';
 import { SurfReportCard } from './surf/SurfReportCard';
+import { PersonalVerdictCard } from './surf/PersonalVerdictCard';
+import { AlertToggle } from './surf/AlertToggle';
+import { useUserProfile } from '../hooks/useUserProfile';
 import { ErrorCard } from './ui/ErrorCard';
 import { useEffect, useRef, useState } from 'react';
 import { SurfReport } from '../types/surf-report';
-import { getLocation, LOCATIONS } from '../lib/locations';
+import type { LocationSummary } from '../lib/locations';
+import { isServiceWorkerSupported, postSavedLocations } from '../lib/service-worker';
 
 const STORAGE_KEY = 'surf_location';
 
@@ -29,16 +34,16 @@ function extractConditionFromReport(report: string): string {
 interface Props {
   initialReport?: SurfReport | null;
   locationSlug: string;
+  locations: LocationSummary[];
 }
 
-const widestLocationName = LOCATIONS.reduce(
-  (a, b) => (b.name.length > a.length ? b.name : a),
-  ''
-);
-
-export function SurfAppClient({ initialReport, locationSlug }: Props) {
+export function SurfAppClient({ initialReport, locationSlug, locations }: Props) {
   const router = useRouter();
-  const location = getLocation(locationSlug);
+  const location = locations.find(loc => loc.slug === locationSlug);
+  const widestLocationName = locations.reduce(
+    (a, b) => (b.name.length > a.length ? b.name : a),
+    ''
+  );
   const locationName = location?.name ?? locationSlug;
   const [open, setOpen] = useState(false);
   const [sourcesOpen, setSourcesOpen] = useState(false);
@@ -47,8 +52,15 @@ export function SurfAppClient({ initialReport, locationSlug }: Props) {
   const [audioState, setAudioState] = useState<'idle' | 'loading' | 'playing'>('idle');
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
-  const { report: surfReport, loading: reportLoading, error: reportError } =
+  const { report: surfReport, loading: reportLoading, error: reportError, offline: reportOffline, streamingText } =
     useSurfReportOptimized({ initialData: initialReport, locationSlug });
+  const { profile, saving: profileSaving, saveProfile, toggleFavorite } = useUserProfile();
+  const favorites = profile?.favorite_locations ?? [];
+  // Favourites first, otherwise keep registry order
+  const menuLocations = [
+    ...locations.filter(loc => favorites.includes(loc.slug)),
+    ...locations.filter(loc => !favorites.includes(loc.slug)),
+  ];
 
   useEffect(() => {
     if (surfReport && !reportLoading) {
@@ -59,6 +71,13 @@ export function SurfAppClient({ initialReport, locationSlug }: Props) {
     }
   }, [surfReport, reportLoading, locationName]);
 
+  // Keep offline copies of the spot being viewed plus any favourites
+  const savedSlugs = [locationSlug, ...favorites.filter(slug => slug !== locationSlug)].join(',');
+  useEffect(() => {
+    if (!isServiceWorkerSupported()) return;
+    postSavedLocations(savedSlugs.split(',')).catch(() => {});
+  }, [savedSlugs]);
+
   useEffect(() => {
     if (!open && !sourcesOpen) return;
     const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') { setOpen(false); setSourcesOpen(false); } };
@@ -146,7 +165,11 @@ export function SurfAppClient({ initialReport, locationSlug }: Props) {
         </div>
 
         <div className="mt-6 px-4 max-w-3xl w-full">
-          <SurfReportCard report={surfReport} loading={reportLoading} />
+          <SurfReportCard report={surfReport} loading={reportLoading} offline={reportOffline} streamingText={streamingText} />
+          {surfReport && !reportLoading && (
+            <PersonalVerdictCard report={surfReport} profile={profile} saving={profileSaving} onSave={saveProfile} />
+          )}
+          <AlertToggle locationSlug={locationSlug} locationName={locationName} />
           {reportError && <ErrorCard message={reportError} />}
         </div>
 
@@ -196,6 +219,14 @@ export function SurfAppClient({ initialReport, locationSlug }: Props) {
             </span>
             {', however, it can make mistakes so always check conditions yourself before paddling out.'}
           </p>
+          <p className="mt-3 text-center">
+            <Link
+              href={`/${locationSlug}/history`}
+              className="text-xs font-mono text-gray-400 underline underline-offset-2 decoration-dashed hover:text-gray-600"
+            >
+              Past reports for {locationName}
+            </Link>
+          </p>
         </div>
       </motion.div>
 
@@ -266,23 +297,35 @@ export function SurfAppClient({ initialReport, locationSlug }: Props) {
                       hidden:  {},
                     }}
                   >
-                    {LOCATIONS.map((loc) => (
-                      <motion.button
+                    {menuLocations.map((loc) => (
+                      <motion.div
                         key={loc.slug}
                         variants={{
                           visible: { opacity: 1, x: 0 },
                           hidden:  { opacity: 0, x: -4 },
                         }}
                         transition={{ type: 'spring', stiffness: 500, damping: 32 }}
-                        onClick={() => handleLocationChange(loc.slug)}
-                        className={`w-full text-left px-4 py-2.5 text-sm font-mono whitespace-nowrap transition-colors ${
-                          loc.slug === locationSlug
-                            ? 'bg-gray-100 text-gray-900 font-semibold'
-                            : 'text-gray-700 hover:bg-gray-50'
+                        className={`flex items-center transition-colors ${
+                          loc.slug === locationSlug ? 'bg-gray-100' : 'hover:bg-gray-50'
                         }`}
                       >
-                        {loc.name}
-                      </motion.button>
+                        <button
+                          onClick={() => handleLocationChange(loc.slug)}
+                          className={`flex-1 text-left pl-4 pr-2 py-2.5 text-sm font-mono whitespace-nowrap ${
+                            loc.slug === locationSlug ? 'text-gray-900 font-semibold' : 'text-gray-700'
+                          }`}
+                        >
+                          {loc.name}
+                        </button>
+                        <button
+                          onClick={() => toggleFavorite(loc.slug)}
+                          className={`pr-4 pl-2 py-2.5 text-sm ${favorites.includes(loc.slug) ? 'text-amber-500' : 'text-gray-300 hover:text-gray-400'}`}
+                          aria-label={favorites.includes(loc.slug) ? `Remove ${loc.name} from favorites` : `Add ${loc.name} to favorites`}
+                          aria-pressed={favorites.includes(loc.slug)}
+                        >
+                          ★
+                        </button>
+                      </motion.div>
                     ))}
                   </motion.div>
                 </motion.div>
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { usePushAlerts } from '../../hooks/usePushAlerts';
+
+interface AlertToggleProps {
+  locationSlug: string;
+  locationName: string;
+}
+
+const SCORE_OPTIONS = [45, 55, 65, 75, 85];
+
+export function AlertToggle({ locationSlug, locationName }: AlertToggleProps) {
+  const { status, busy, error, rules, addAlert, removeAlert } = usePushAlerts(locationSlug);
+  const [minScore, setMinScore] = useState(65);
+
+  if (status === 'loading' || status === 'unsupported') return null;
+
+  return (
+    <div className="mt-3 font-mono text-sm">
+      {status === 'denied' ? (
+        <p className="text-xs text-gray-400">Notifications are blocked for this site, so surf alerts can&apos;t be delivered.</p>
+      ) : rules.length > 0 ? (
+        <ul className="space-y-2">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center justify-between gap-4 border border-gray-200 rounded-xl px-4 py-2.5 text-gray-600">
+              <span>🔔 Alerting when {locationName} scores {rule.min_score}+</span>
+              <button
+                onClick={() => removeAlert(rule.id)}
+                disabled={busy}
+                className="text-xs underline underline-offset-2 decoration-dashed text-gray-400 hover:text-gray-600 disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="flex items-center justify-between gap-3 border border-dashed border-gray-200 rounded-xl px-4 py-2.5 text-gray-500">
+          <label className="flex items-center gap-2">
+            Notify me when it scores
+            <select
+              value={minScore}
+              onChange={e => setMinScore(Number(e.target.value))}
+              className="py-1 pl-2 pr-6 border border-gray-200 rounded-lg text-sm text-gray-700 bg-white cursor-pointer focus:outline-none"
+            >
+              {SCORE_OPTIONS.map(s => <option key={s} value={s}>{s}+</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => addAlert(minScore)}
+            disabled={busy}
+            className="px-3 py-1.5 text-sm rounded-lg bg-gray-900 text-white disabled:opacity-50"
+          >
+            {busy ? 'Setting up…' : 'Alert me'}
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
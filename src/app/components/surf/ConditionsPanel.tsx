@@ -0,0 +1,124 @@
+'use client';
+
+import type { SurfReport } from '../../types/surf-report';
+
+interface ConditionsPanelProps {
+  conditions: SurfReport['conditions'];
+}
+
+// Same bands as calculateSurfability's rating
+function scoreBand(score: number): { label: string; color: string } {
+  if (score >= 80) return { label: 'Excellent', color: '#059669' };
+  if (score >= 65) return { label: 'Good', color: '#10b981' };
+  if (score >= 45) return { label: 'Marginal', color: '#f59e0b' };
+  return { label: 'Poor', color: '#9ca3af' };
+}
+
+function ScoreGauge({ score }: { score: number }) {
+  const { label, color } = scoreBand(score);
+  const clamped = Math.max(0, Math.min(100, score));
+  // Half-circle arc of radius 40: length π·r
+  const arcLength = Math.PI * 40;
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg width="120" height="68" viewBox="0 0 100 56" role="img" aria-label={`Surfability ${score} out of 100, ${label}`}>
+        <path d="M10 50 A40 40 0 0 1 90 50" fill="none" stroke="#e5e7eb" strokeWidth="8" strokeLinecap="round" />
+        <path
+          d="M10 50 A40 40 0 0 1 90 50"
+          fill="none"
+          stroke={color}
+          strokeWidth="8"
+          strokeLinecap="round"
+          strokeDasharray={`${(clamped / 100) * arcLength} ${arcLength}`}
+        />
+        <text x="50" y="46" textAnchor="middle" className="font-mono" fontSize="18" fontWeight="600" fill="#1f2937">{score}</text>
+      </svg>
+      <span className="text-xs uppercase tracking-widest text-gray-500">{label}</span>
+    </div>
+  );
+}
+
+// Arrow points the way the swell or wind is travelling, i.e. away from where it comes from
+function CompassArrow({ degrees }: { degrees: number }) {
+  return (
+    <svg
+      width="16"
+      height="16"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      style={{ transform: `rotate(${(degrees + 180) % 360}deg)` }}
+      className="shrink-0 text-gray-500"
+      aria-hidden="true"
+    >
+      <path d="M12 19V5M5 12l7-7 7 7" />
+    </svg>
+  );
+}
+
+function Stat({ label, value, detail, children }: { label: string; value: string; detail?: string; children?: React.ReactNode }) {
+  return (
+    <div className="border border-gray-200 rounded-xl px-4 py-3">
+      <p className="text-xs uppercase tracking-widest text-gray-400">{label}</p>
+      <div className="mt-1 flex items-center gap-2">
+        {children}
+        <p className="text-base font-semibold text-gray-800">{value}</p>
+      </div>
+      {detail && <p className="mt-0.5 text-xs text-gray-500">{detail}</p>}
+    </div>
+  );
+}
+
+export function ConditionsPanel({ conditions }: ConditionsPanelProps) {
+  const swellCompass = conditions.swell_direction_compass;
+  const windCompass = conditions.wind_direction_compass;
+  const hasTemps = conditions.water_temperature_f !== undefined || conditions.air_temperature_f !== undefined;
+
+  return (
+    <section className="mt-8 font-mono" aria-label="Current conditions">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <ScoreGauge score={conditions.surfability_score} />
+        <div className="flex-1 grid grid-cols-2 gap-3">
+          <Stat
+            label="Waves"
+            value={`${conditions.wave_height_ft}ft @ ${conditions.wave_period_sec}s`}
+            detail={conditions.weather_description}
+          />
+          <Stat
+            label="Swell"
+            value={swellCompass ?? (conditions.swell_direction_deg !== undefined ? `${conditions.swell_direction_deg}°` : '—')}
+            detail={conditions.swell_direction_description}
+          >
+            {conditions.swell_direction_deg !== undefined && <CompassArrow degrees={conditions.swell_direction_deg} />}
+          </Stat>
+          <Stat
+            label="Wind"
+            value={`${conditions.wind_speed_kts}kt ${windCompass ?? `${conditions.wind_direction_deg}°`}`}
+            detail={conditions.wind_direction_description}
+          >
+            <CompassArrow degrees={conditions.wind_direction_deg} />
+          </Stat>
+          <Stat
+            label="Tide"
+            value={conditions.tide_state}
+            detail={conditions.tide_height_ft !== undefined ? `${conditions.tide_height_ft}ft` : undefined}
+          />
+        </div>
+      </div>
+      {hasTemps && (
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          {conditions.water_temperature_f !== undefined && (
+            <Stat label="Water" value={`${conditions.water_temperature_f}°F`} detail={conditions.water_temperature_c !== undefined ? `${conditions.water_temperature_c}°C` : undefined} />
+          )}
+          {conditions.air_temperature_f !== undefined && (
+            <Stat label="Air" value={`${conditions.air_temperature_f}°F`} detail={conditions.air_temperature_c !== undefined ? `${conditions.air_temperature_c}°C` : undefined} />
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
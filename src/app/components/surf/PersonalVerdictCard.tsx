@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { getPersonalVerdict } from '../../lib/personal-verdict';
+import { DEFAULT_PROFILE } from '../../lib/user-profile';
+import type { SurfReport } from '../../types/surf-report';
+import type { BoardType, SkillLevel, UserProfile, WetsuitTolerance } from '../../types/user-profile';
+
+interface PersonalVerdictCardProps {
+  report: SurfReport;
+  profile: UserProfile | null;
+  saving: boolean;
+  onSave: (profile: Pick<UserProfile, 'skill_level' | 'preferred_board' | 'wetsuit_tolerance' | 'favorite_locations'>) => Promise<unknown>;
+}
+
+const SKILL_OPTIONS: SkillLevel[] = ['beginner', 'intermediate', 'advanced'];
+const BOARD_OPTIONS: BoardType[] = ['foamie', 'longboard', 'funboard', 'fish', 'shortboard'];
+const WETSUIT_OPTIONS: WetsuitTolerance[] = ['boardshorts', '3/2', '4/3', '5/4'];
+
+const VERDICT_STYLES = {
+  go: 'border-emerald-200 bg-emerald-50 text-emerald-900',
+  maybe: 'border-amber-200 bg-amber-50 text-amber-900',
+  skip: 'border-gray-200 bg-gray-50 text-gray-700',
+};
+
+const selectClass = 'w-full py-2 pl-3 pr-8 border border-gray-200 rounded-lg text-sm font-mono text-gray-700 bg-white cursor-pointer focus:outline-none focus:ring-2 focus:ring-gray-100';
+
+export function PersonalVerdictCard({ report, profile, saving, onSave }: PersonalVerdictCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(() => profile ?? DEFAULT_PROFILE);
+
+  function startEditing() {
+    setDraft(profile ?? DEFAULT_PROFILE);
+    setEditing(true);
+  }
+
+  async function handleSave() {
+    await onSave({
+      skill_level: draft.skill_level,
+      preferred_board: draft.preferred_board,
+      wetsuit_tolerance: draft.wetsuit_tolerance,
+      favorite_locations: draft.favorite_locations,
+    });
+    setEditing(false);
+  }
+
+  const verdict = profile ? getPersonalVerdict(profile, report) : null;
+
+  return (
+    <div className="mt-6 font-mono">
+      {verdict ? (
+        <div className={`border rounded-xl px-4 py-3 ${VERDICT_STYLES[verdict.verdict]}`}>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm font-semibold">{verdict.headline}</p>
+            <button onClick={startEditing} className="text-xs underline underline-offset-2 decoration-dashed opacity-70 hover:opacity-100">
+              Edit profile
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs opacity-80">
+            {verdict.reasons.map(reason => <li key={reason}>{reason}</li>)}
+          </ul>
+        </div>
+      ) : (
+        !editing && (
+          <button
+            onClick={startEditing}
+            className="w-full text-sm text-gray-500 border border-dashed border-gray-200 rounded-xl px-4 py-3 hover:text-gray-700 hover:border-gray-300 transition-colors"
+          >
+            Tell us how you surf for a personal verdict
+          </button>
+        )
+      )}
+
+      <AnimatePresence>
+        {editing && (
+          <motion.div
+            className="mt-3 border border-gray-200 rounded-xl px-4 py-4 space-y-3 bg-white"
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ type: 'spring', stiffness: 480, damping: 32 }}
+          >
+            <label className="block text-xs text-gray-400 uppercase tracking-widest">
+              Skill level
+              <select
+                value={draft.skill_level}
+                onChange={e => setDraft(d => ({ ...d, skill_level: e.target.value as SkillLevel }))}
+                className={`mt-1 ${selectClass}`}
+              >
+                {SKILL_OPTIONS.map(o => <option key={o} value={o}>{o}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400 uppercase tracking-widest">
+              Usual board
+              <select
+                value={draft.preferred_board}
+                onChange={e => setDraft(d => ({ ...d, preferred_board: e.target.value as BoardType }))}
+                className={`mt-1 ${selectClass}`}
+              >
+                {BOARD_OPTIONS.map(o => <option key={o} value={o}>{o}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400 uppercase tracking-widest">
+              Thickest wetsuit you&apos;ll wear
+              <select
+                value={draft.wetsuit_tolerance}
+                onChange={e => setDraft(d => ({ ...d, wetsuit_tolerance: e.target.value as WetsuitTolerance }))}
+                className={`mt-1 ${selectClass}`}
+              >
+                {WETSUIT_OPTIONS.map(o => <option key={o} value={o}>{o}</option>)}
+              </select>
+            </label>
+            <div className="flex justify-end gap-2 pt-1">
+              <button onClick={() => setEditing(false)} className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-3 py-1.5 text-sm rounded-lg bg-gray-900 text-white disabled:opacity-50"
+              >
+                {saving ? 'Saving…' : 'Save'}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import type { SurfReport } from '../../types/surf-report';
+
+interface RecommendationsPanelProps {
+  recommendations: SurfReport['recommendations'];
+}
+
+export function RecommendationsPanel({ recommendations }: RecommendationsPanelProps) {
+  const rows: Array<{ label: string; value: string }> = [
+    { label: 'Board', value: recommendations.board_type },
+    ...(recommendations.wetsuit_thickness ? [{ label: 'Wetsuit', value: recommendations.wetsuit_thickness }] : []),
+    { label: 'Skill level', value: recommendations.skill_level },
+  ];
+
+  return (
+    <section className="mt-6 font-mono border border-gray-200 rounded-xl px-4 py-4" aria-label="Recommendations">
+      <p className="text-xs uppercase tracking-widest text-gray-400">Recommendations</p>
+      <dl className="mt-3 grid grid-cols-3 gap-3">
+        {rows.map(({ label, value }) => (
+          <div key={label}>
+            <dt className="text-xs text-gray-400">{label}</dt>
+            <dd className="text-sm font-semibold text-gray-800 capitalize">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {recommendations.best_spots && recommendations.best_spots.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-gray-400">Best spots</p>
+          <ul className="mt-1 flex flex-wrap gap-2">
+            {recommendations.best_spots.map(spot => (
+              <li key={spot} className="text-xs text-gray-700 bg-gray-100 rounded-lg px-2 py-1">{spot}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {recommendations.timing_advice && (
+        <div className="mt-4">
+          <p className="text-xs text-gray-400">Timing</p>
+          <p className="mt-1 text-sm text-gray-700">{recommendations.timing_advice}</p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ReportFeedbackProps {
+  reportId: string;
+}
+
+type FeedbackState = 'idle' | 'sending' | 'sent' | 'error';
+
+const storageKey = (reportId: string) => `surf_feedback_${reportId}`;
+
+// One vote per report per browser; the vote is remembered locally so it isn't asked again
+export function ReportFeedback({ reportId }: ReportFeedbackProps) {
+  const [state, setState] = useState<FeedbackState>('idle');
+
+  useEffect(() => {
+    try {
+      setState(localStorage.getItem(storageKey(reportId)) ? 'sent' : 'idle');
+    } catch (_) {
+      setState('idle');
+    }
+  }, [reportId]);
+
+  const vote = async (helpful: boolean) => {
+    setState('sending');
+    try {
+      const res = await fetch('/api/surf-report/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ report_id: reportId, helpful }),
+      });
+      if (!res.ok) throw new Error(`Feedback failed: ${res.status}`);
+      try {
+        localStorage.setItem(storageKey(reportId), helpful ? 'up' : 'down');
+      } catch (_) {}
+      setState('sent');
+    } catch (_) {
+      setState('error');
+    }
+  };
+
+  if (state === 'sent') {
+    return <p className="mt-6 text-center font-mono text-xs text-gray-400">Thanks for the feedback</p>;
+  }
+
+  return (
+    <div className="mt-6 flex items-center justify-center gap-3 font-mono text-xs text-gray-400">
+      <span>{state === 'error' ? 'Couldn’t send that, try again?' : 'Was this report useful?'}</span>
+      <button
+        onClick={() => vote(true)}
+        disabled={state === 'sending'}
+        aria-label="Report was useful"
+        className="px-2 py-1 rounded-lg border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+      >
+        👍
+      </button>
+      <button
+        onClick={() => vote(false)}
+        disabled={state === 'sending'}
+        aria-label="Report was not useful"
+        className="px-2 py-1 rounded-lg border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+      >
+        👎
+      </button>
+    </div>
+  );
+}
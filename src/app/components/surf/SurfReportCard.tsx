@@ -1,38 +1,31 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-
-interface SurfReport {
-  id: string;
-  timestamp: string;
-  location: string;
-  report: string;
-  conditions: {
-    wave_height_ft: number;
-    wave_period_sec: number;
-    wind_speed_kts: number;
-    wind_direction_deg: number;
-    tide_state: string;
-    weather_description: string;
-    surfability_score: number;
-  };
-  recommendations: {
-    board_type: string;
-    wetsuit_thickness?: string;
-    skill_level: 'beginner' | 'intermediate' | 'advanced';
-    best_spots?: string[];
-    timing_advice?: string;
-  };
-  cached_until: string;
-}
+import type { SurfReport } from '../../types/surf-report';
+import { ConditionsPanel } from './ConditionsPanel';
+import { RecommendationsPanel } from './RecommendationsPanel';
+import { ReportFeedback } from './ReportFeedback';
 
 interface SurfReportCardProps {
   report: SurfReport | null;
   loading: boolean;
+  // Served from the service worker's offline copy rather than the network
+  offline?: boolean;
+  // Text of a report still being generated, shown in place of the skeleton
+  streamingText?: string | null;
+}
+
+function formatReportAge(timestamp: string): string {
+  const minutes = Math.max(0, Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min old`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'} old`;
+  return `${Math.floor(hours / 24)} days old`;
 }
 
-export function SurfReportCard({ report, loading }: SurfReportCardProps) {
+export function SurfReportCard({ report, loading, offline = false, streamingText = null }: SurfReportCardProps) {
   const [formattedTime, setFormattedTime] = useState<string | null>(null);
+  const [offlineLabel, setOfflineLabel] = useState<string | null>(null);
 
   useEffect(() => {
     if (!report?.timestamp) return;
@@ -48,6 +41,23 @@ export function SurfReportCard({ report, loading }: SurfReportCardProps) {
     setFormattedTime(datePart + ' @ ' + reportTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
   }, [report?.timestamp]);
 
+  // Computed after mount, like formattedTime, so server and client markup match
+  useEffect(() => {
+    setOfflineLabel(offline && report?.timestamp ? `Offline · saved report, ${formatReportAge(report.timestamp)}` : null);
+  }, [offline, report?.timestamp]);
+
+  if (loading && !report && streamingText) {
+    return (
+      <div className="prose prose-lg mb-6" aria-busy="true">
+        <pre className="text-center pt-4 pb-8 uppercase text-gray-500 tracking-wide">Writing report…</pre>
+        <p className="text-gray-800 leading-relaxed text-2xl md:text-3xl whitespace-pre-wrap">
+          {streamingText}
+          <span className="inline-block w-2 h-6 ml-1 align-middle bg-gray-300 animate-pulse" aria-hidden="true" />
+        </p>
+      </div>
+    );
+  }
+
   // Don't render anything if loading and no report
   if (loading && !report) {
     return (
@@ -102,14 +112,23 @@ export function SurfReportCard({ report, loading }: SurfReportCardProps) {
   }
 
   return (
-
+      <>
         <div className="prose prose-lg mb-6">
-            <pre className="text-center pt-4 pb-8 uppercase text-gray-500 tracking-wide">{formattedTime ?? ''}</pre>
+            <pre className={`text-center pt-4 uppercase text-gray-500 tracking-wide ${offlineLabel ? 'pb-2' : 'pb-8'}`}>{formattedTime ?? ''}</pre>
+            {offlineLabel && (
+              <p className="text-center pb-6 text-sm font-mono text-amber-700" role="status">{offlineLabel}</p>
+            )}
           <p className="text-gray-800 leading-relaxed text-2xl md:text-3xl whitespace-pre-wrap">
             {report?.report || 'Loading surf report...'}
           </p>
         </div>
-
-    
+        {report && (
+          <>
+            <ConditionsPanel conditions={report.conditions} />
+            <RecommendationsPanel recommendations={report.recommendations} />
+            {!offline && <ReportFeedback reportId={report.id} />}
+          </>
+        )}
+      </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { AlertRule } from '../types/alerts';
+import { registerServiceWorker } from '../lib/service-worker';
+
+type PushStatus = 'loading' | 'unsupported' | 'denied' | 'ready';
+
+// applicationServerKey wants the raw bytes, the server hands out base64url
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(padded);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+async function jsonOrThrow(response: Response) {
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+export function usePushAlerts(locationSlug: string) {
+  const [status, setStatus] = useState<PushStatus>('loading');
+  const [endpoint, setEndpoint] = useState<string | null>(null);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async (forEndpoint: string) => {
+    const data = await jsonOrThrow(await fetch('/api/alerts', { headers: { 'X-Push-Endpoint': forEndpoint } }));
+    setRules(data.rules);
+  }, []);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || !('PushManager' in window) || !('Notification' in window)) {
+      setStatus('unsupported');
+      return;
+    }
+    if (Notification.permission === 'denied') {
+      setStatus('denied');
+      return;
+    }
+
+    let cancelled = false;
+    registerServiceWorker()
+      .then(registration => registration.pushManager.getSubscription())
+      .then(async subscription => {
+        if (cancelled) return;
+        setStatus('ready');
+        if (subscription) {
+          setEndpoint(subscription.endpoint);
+          await loadRules(subscription.endpoint);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setStatus('unsupported');
+          setError(err instanceof Error ? err.message : 'Service worker registration failed');
+        }
+      });
+
+    return () => { cancelled = true; };
+  }, [loadRules]);
+
+  // Subscribes this browser on first use, then registers the rule against it
+  async function addAlert(minScore: number) {
+    setBusy(true);
+    setError(null);
+    try {
+      const registration = await registerServiceWorker();
+      let subscription = await registration.pushManager.getSubscription();
+
+      if (!subscription) {
+        const permission = await Notification.requestPermission();
+        if (permission !== 'granted') {
+          setStatus(permission === 'denied' ? 'denied' : 'ready');
+          return;
+        }
+        const { publicKey } = await jsonOrThrow(await fetch('/api/push/vapid-public-key'));
+        subscription = await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey),
+        });
+      }
+
+      // Re-posting is harmless and keeps rotated keys in sync with the server
+      await jsonOrThrow(await fetch('/api/push/subscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(subscription.toJSON()),
+      }));
+
+      await jsonOrThrow(await fetch('/api/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ location: locationSlug, min_score: minScore, endpoint: subscription.endpoint }),
+      }));
+
+      setEndpoint(subscription.endpoint);
+      await loadRules(subscription.endpoint);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not set up the alert');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function removeAlert(id: string) {
+    if (!endpoint) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await jsonOrThrow(await fetch(`/api/alerts/${id}`, { method: 'DELETE', headers: { 'X-Push-Endpoint': endpoint } }));
+      setRules(current => current.filter(r => r.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove the alert');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return {
+    status,
+    busy,
+    error,
+    rules: rules.filter(r => r.location === locationSlug),
+    addAlert,
+    removeAlert,
+  };
+}
@@ -1,16 +1,28 @@
 'use client';
 
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { SurfReport } from '../types/surf-report';
+import { SurfReport, type ReportStreamEvent } from '../types/surf-report';
+import { readNdjson } from '../lib/ndjson';
+import { readOfflineReport, requestReportSync, writeOfflineReport } from '../lib/service-worker';
 
 interface Options {
   initialData?: SurfReport | null;
   locationSlug: string;
 }
 
+interface ReportQueryData {
+  report: SurfReport;
+  // Set when the report came from the service worker's offline copy rather than the network
+  offlineCachedAt: string | null;
+}
+
 export function useSurfReportOptimized({ initialData, locationSlug }: Options) {
+  // Report text as it's generated on a cache miss; null once the finished report arrives
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+
   const {
-    data: report,
+    data,
     isLoading,
     error,
     refetch,
@@ -19,46 +31,69 @@ export function useSurfReportOptimized({ initialData, locationSlug }: Options) {
     isStale
   } = useQuery({
     queryKey: ['surfReport', locationSlug],
-    queryFn: async (): Promise<SurfReport> => {
+    queryFn: async (): Promise<ReportQueryData> => {
       console.log(`🔄 Fetching surf report for ${locationSlug}...`);
 
-      const response = await fetch(`/api/surf-report?location=${locationSlug}`, {
-        headers: {
-          'Accept': 'application/json',
-          'Cache-Control': 'public, max-age=1800',
-        },
-      });
+      try {
+        // Cached reports come back as a single event; a fresh one streams its text first
+        const response = await fetch(`/api/surf-report/stream?location=${locationSlug}`, {
+          headers: { 'Accept': 'application/x-ndjson' },
+        });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
 
-      const dataSource = response.headers.get('X-Data-Source');
-      const responseTime = response.headers.get('X-Response-Time');
-      console.log(`✅ Got surf report from ${dataSource} in ${responseTime}`);
+        let report = null as SurfReport | null;
+        let streamError = null as string | null;
+        try {
+          await readNdjson<ReportStreamEvent>(response.body, event => {
+            if (event.type === 'partial') setStreamingText(event.text);
+            else if (event.type === 'report') report = event.report;
+            else streamError = event.error;
+          });
+        } finally {
+          setStreamingText(null);
+        }
 
-      return response.json();
+        if (!report) throw new Error(streamError ?? 'Report stream ended without a report');
+
+        console.log(`✅ Got surf report (cache ${response.headers.get('X-Cache-Status')})`);
+        writeOfflineReport(locationSlug, report).catch(() => {});
+        return { report, offlineCachedAt: null };
+      } catch (error) {
+        const offline = await readOfflineReport<SurfReport>(locationSlug).catch(() => null);
+        if (!offline) throw error;
+
+        console.log(`📴 Network unavailable, showing offline copy for ${locationSlug}`);
+        requestReportSync().catch(() => {});
+        return { report: offline.data, offlineCachedAt: offline.cachedAt ?? offline.data.timestamp };
+      }
     },
 
-    staleTime: 30 * 60 * 1000,
+    // An offline copy is always stale so it's replaced as soon as the network is back
+    staleTime: query => (query.state.data?.offlineCachedAt ? 0 : 30 * 60 * 1000),
     gcTime: 4 * 60 * 60 * 1000,
     refetchInterval: false,
     refetchOnWindowFocus: false,
-    refetchOnReconnect: false,
+    refetchOnReconnect: true,
     refetchIntervalInBackground: false,
     retry: 1,
     retryDelay: 2000,
     refetchOnMount: true,
 
-    initialData: initialData ?? undefined,
+    initialData: initialData ? { report: initialData, offlineCachedAt: null } : undefined,
     initialDataUpdatedAt: initialData?.timestamp
       ? new Date(initialData.timestamp).getTime()
       : undefined,
 
-    networkMode: 'online',
+    // Run the query even without a connection so the offline copy can answer
+    networkMode: 'offlineFirst',
     enabled: true,
   });
 
+  const report = data?.report;
+
   const getDataFreshness = () => {
     if (!report?.timestamp) return null;
     const ageMinutes = Math.floor((Date.now() - new Date(report.timestamp).getTime()) / (1000 * 60));
@@ -97,6 +132,9 @@ export function useSurfReportOptimized({ initialData, locationSlug }: Options) {
   return {
     report: report || null,
     loading: isLoading,
+    offline: !!data?.offlineCachedAt,
+    offlineCachedAt: data?.offlineCachedAt ?? null,
+    streamingText,
     error: error?.message || null,
     refetch,
     isRefetching,
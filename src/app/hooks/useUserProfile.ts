@@ -0,0 +1,59 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { UserProfile } from '../types/user-profile';
+import { DEFAULT_PROFILE } from '../lib/user-profile';
+
+type ProfileInput = Pick<UserProfile, 'skill_level' | 'preferred_board' | 'wetsuit_tolerance' | 'favorite_locations'>;
+
+const QUERY_KEY = ['userProfile'];
+
+export function useUserProfile() {
+  const queryClient = useQueryClient();
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async (): Promise<UserProfile | null> => {
+      const response = await fetch('/api/profile', { headers: { 'Accept': 'application/json' } });
+      if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const { profile } = await response.json();
+      return profile;
+    },
+    staleTime: Infinity,
+  });
+
+  const { mutateAsync: saveProfile, isPending: saving } = useMutation({
+    mutationFn: async (input: ProfileInput): Promise<UserProfile> => {
+      const response = await fetch('/api/profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const { profile } = await response.json();
+      return profile;
+    },
+    onSuccess: saved => queryClient.setQueryData(QUERY_KEY, saved),
+  });
+
+  function toggleFavorite(slug: string) {
+    const base = profile ?? DEFAULT_PROFILE;
+    const favorites = base.favorite_locations.includes(slug)
+      ? base.favorite_locations.filter(s => s !== slug)
+      : [...base.favorite_locations, slug];
+    return saveProfile({
+      skill_level: base.skill_level,
+      preferred_board: base.preferred_board,
+      wetsuit_tolerance: base.wetsuit_tolerance,
+      favorite_locations: favorites,
+    });
+  }
+
+  return {
+    profile: profile ?? null,
+    loading: isLoading,
+    saving,
+    saveProfile,
+    toggleFavorite,
+  };
+}
@@ -0,0 +1,7 @@
+import type { NextRequest } from 'next/server';
+
+// Admin endpoints share the cron's bearer secret; with no secret configured nothing is authorized
+export function isAuthorized(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  return Boolean(cronSecret) && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { evaluateAlerts } from './alerts';
+import { SEED_LOCATIONS } from './locations';
+import type { AlertRuleDelivery } from '../types/alerts';
+
+const { getAlertRulesForDelivery, getHourlyForecast } = vi.hoisted(() => ({
+  getAlertRulesForDelivery: vi.fn(),
+  getHourlyForecast: vi.fn(),
+}));
+vi.mock('./db', () => ({ getAlertRulesForDelivery, updateAlertRuleState: vi.fn(), deletePushSubscription: vi.fn() }));
+vi.mock('./forecast', () => ({ getHourlyForecast }));
+vi.mock('./push', () => ({ sendPushNotification: vi.fn() }));
+
+const NOW = new Date('2025-10-18T13:00:00Z');
+
+function rule(location: string): AlertRuleDelivery {
+  return {
+    id: `rule-${location}`,
+    location,
+    min_score: 70,
+    max_wind_kts: null,
+    min_period_sec: null,
+    daylight_only: true,
+    endpoint: 'https://push.example/abc',
+    event_active: false,
+    last_notified_at: null,
+    created_at: '2025-10-01T00:00:00Z',
+    subscription: { endpoint: 'https://push.example/abc', keys: { p256dh: 'p', auth: 'a' } },
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  getHourlyForecast.mockReset().mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('evaluateAlerts', () => {
+  it('starts no forecast fetch past the deadline and reports the locations with rules it skipped', async () => {
+    const [first, second, third] = SEED_LOCATIONS;
+    getAlertRulesForDelivery.mockResolvedValue([rule(first!.slug), rule(third!.slug)]);
+    getHourlyForecast.mockImplementationOnce(async () => {
+      vi.setSystemTime(NOW.getTime() + 5000);
+      return [];
+    });
+
+    const result = await evaluateAlerts([first!, second!, third!], NOW.getTime() + 1000);
+
+    expect(getHourlyForecast).toHaveBeenCalledTimes(1);
+    expect(result.rules_checked).toBe(1);
+    expect(result.skipped_locations).toEqual([third!.slug]);
+  });
+});
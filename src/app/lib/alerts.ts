@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import type { Location } from './locations';
+import { getHourlyForecast, type ForecastHour } from './forecast';
+import { sendPushNotification } from './push';
+import type { AlertNotificationPayload, AlertRule } from '../types/alerts';
+
+// Rules are checked against the next few forecast hours, so an alert lands a little
+// before the good conditions rather than after they've already started
+export const ALERT_LOOKAHEAD_HOURS = 3;
+
+// Even after an event ends, the same rule stays quiet this long so conditions
+// flickering around the threshold don't produce a string of alerts
+export const ALERT_COOLDOWN_HOURS = 12;
+
+export const MAX_ALERT_RULES_PER_SUBSCRIPTION = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const alertRuleSchema = z.object({
+  location: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/),
+  min_score: z.number().int().min(0).max(100),
+  max_wind_kts: z.number().min(0).max(60).nullable().default(null),
+  min_period_sec: z.number().min(0).max(25).nullable().default(null),
+  daylight_only: z.boolean().default(true),
+  // Endpoint of a subscription already registered through /api/push/subscribe
+  endpoint: z.string().url(),
+}).strict();
+
+export type AlertRuleInput = z.infer<typeof alertRuleSchema>;
+
+export function matchesAlertRule(rule: AlertRule, hour: ForecastHour): boolean {
+  if (hour.score < rule.min_score) return false;
+  if (rule.max_wind_kts !== null && hour.wind_speed_kts > rule.max_wind_kts) return false;
+  if (rule.min_period_sec !== null && hour.wave_period_sec < rule.min_period_sec) return false;
+  if (rule.daylight_only && !hour.daylight) return false;
+  return true;
+}
+
+// Best-scoring matching hour in the lookahead, or null if nothing qualifies
+export function findAlertMatch(rule: AlertRule, hours: ForecastHour[]): ForecastHour | null {
+  const horizon = Date.now() + ALERT_LOOKAHEAD_HOURS * HOUR_MS;
+  let best: ForecastHour | null = null;
+  for (const hour of hours) {
+    if (new Date(hour.time).getTime() >= horizon) break;
+    if (matchesAlertRule(rule, hour) && (!best || hour.score > best.score)) best = hour;
+  }
+  return best;
+}
+
+// One notification per swell event: only when a rule starts matching, and
+// never twice inside the cooldown
+export function shouldNotify(rule: AlertRule, now = Date.now()): boolean {
+  if (rule.event_active) return false;
+  if (!rule.last_notified_at) return true;
+  return now - new Date(rule.last_notified_at).getTime() >= ALERT_COOLDOWN_HOURS * HOUR_MS;
+}
+
+export function buildAlertPayload(location: Location, hour: ForecastHour): AlertNotificationPayload {
+  const time = new Date(hour.time).toLocaleTimeString('en-US', { hour: 'numeric', hour12: true, timeZone: location.timezone });
+  return {
+    title: `${location.name} is ${hour.rating.toLowerCase()} — ${hour.score}/100`,
+    body: `${hour.wave_height_ft}ft @ ${hour.wave_period_sec}s, ${hour.wind_speed_kts}kt ${hour.wind_direction_description} around ${time}`,
+    slug: location.slug,
+    score: hour.score,
+    wave_height_ft: hour.wave_height_ft,
+    url: `/${location.slug}`,
+  };
+}
+
+export interface AlertEvaluationResult {
+  rules_checked: number;
+  matched: number;
+  sent: number;
+  subscriptions_removed: number;
+  errors: Array<{ location: string; error: string }>;
+  // Locations with rules that weren't reached before the deadline; checked next run
+  skipped_locations: string[];
+}
+
+// Runs after each cron generation pass. One forecast fetch per location with rules, none
+// started after `deadline` (epoch ms); delivery failures are collected rather than thrown
+// so one bad endpoint can't stop the rest.
+export async function evaluateAlerts(locations: Location[], deadline = Infinity): Promise<AlertEvaluationResult> {
+  const { deletePushSubscription, getAlertRulesForDelivery, updateAlertRuleState } = await import('./db');
+
+  const result: AlertEvaluationResult = { rules_checked: 0, matched: 0, sent: 0, subscriptions_removed: 0, errors: [], skipped_locations: [] };
+  const rules = await getAlertRulesForDelivery();
+  const goneEndpoints = new Set<string>();
+
+  for (const location of locations) {
+    const locationRules = rules.filter(r => r.location === location.slug);
+    if (locationRules.length === 0) continue;
+
+    if (Date.now() >= deadline) {
+      result.skipped_locations.push(location.slug);
+      continue;
+    }
+
+    let hours: ForecastHour[];
+    try {
+      hours = await getHourlyForecast(location, 1);
+    } catch (error) {
+      result.errors.push({ location: location.slug, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    for (const rule of locationRules) {
+      if (goneEndpoints.has(rule.endpoint)) continue;
+      result.rules_checked++;
+
+      const match = findAlertMatch(rule, hours);
+      if (!match) {
+        if (rule.event_active) await updateAlertRuleState(rule.id, false);
+        continue;
+      }
+
+      result.matched++;
+      if (!shouldNotify(rule)) {
+        // A match inside the cooldown still opens the event, so it isn't announced late
+        if (!rule.event_active) await updateAlertRuleState(rule.id, true);
+        continue;
+      }
+
+      try {
+        const outcome = await sendPushNotification(rule.subscription, buildAlertPayload(location, match));
+        if (outcome === 'gone') {
+          // Dropping the subscription cascades to all of its rules
+          goneEndpoints.add(rule.endpoint);
+          if (await deletePushSubscription(rule.endpoint)) result.subscriptions_removed++;
+          continue;
+        }
+        result.sent++;
+        await updateAlertRuleState(rule.id, true, new Date().toISOString());
+      } catch (error) {
+        result.errors.push({ location: location.slug, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,150 @@
+// Per-location cache for /api/surfability with stale-while-revalidate.
+// Backend is picked by SURFABILITY_CACHE_BACKEND: 'memory' (default, per instance)
+// or 'neon' (shared across instances via the conditions_cache table).
+
+export interface CachedConditions<T> {
+  value: T;
+  storedAt: number;
+}
+
+export interface ConditionsCacheBackend {
+  name: string;
+  get<T>(key: string): Promise<CachedConditions<T> | null>;
+  set<T>(key: string, entry: CachedConditions<T>): Promise<void>;
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+export interface CacheLookup<T> {
+  value: T;
+  status: CacheStatus;
+  storedAt: number;
+  validUntil: number;
+}
+
+export interface CachePolicy {
+  ttlSeconds: number;
+  staleSeconds: number;
+}
+
+const memoryEntries = new Map<string, CachedConditions<unknown>>();
+
+const memoryBackend: ConditionsCacheBackend = {
+  name: 'memory',
+  async get<T>(key: string) {
+    return (memoryEntries.get(key) as CachedConditions<T> | undefined) ?? null;
+  },
+  async set<T>(key: string, entry: CachedConditions<T>) {
+    memoryEntries.set(key, entry);
+  },
+};
+
+// db.ts refuses to load without a connection string, so only import it when asked for
+const neonBackend: ConditionsCacheBackend = {
+  name: 'neon',
+  async get<T>(key: string) {
+    const { getCachedConditions } = await import('./db');
+    const row = await getCachedConditions(key);
+    return row ? { value: row.payload as T, storedAt: new Date(row.storedAt).getTime() } : null;
+  },
+  async set<T>(key: string, entry: CachedConditions<T>) {
+    const { saveCachedConditions } = await import('./db');
+    await saveCachedConditions(key, entry.value, new Date(entry.storedAt).toISOString());
+  },
+};
+
+const BACKENDS: Record<string, ConditionsCacheBackend> = {
+  memory: memoryBackend,
+  neon: neonBackend,
+};
+
+function readSeconds(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getCachePolicy(): CachePolicy {
+  return {
+    ttlSeconds: readSeconds(process.env.SURFABILITY_CACHE_TTL_SECONDS, 300),
+    staleSeconds: readSeconds(process.env.SURFABILITY_CACHE_STALE_SECONDS, 1800),
+  };
+}
+
+export function getCacheBackend(): ConditionsCacheBackend {
+  const name = process.env.SURFABILITY_CACHE_BACKEND ?? 'memory';
+  const backend = BACKENDS[name];
+  if (!backend) throw new Error(`Unknown SURFABILITY_CACHE_BACKEND "${name}" (available: ${Object.keys(BACKENDS).join(', ')})`);
+  return backend;
+}
+
+// One upstream load per key at a time, however many requests arrive together
+const inFlight = new Map<string, Promise<CachedConditions<unknown>>>();
+
+function load<T>(
+  backend: ConditionsCacheBackend,
+  key: string,
+  loader: () => Promise<T>,
+  cacheable: (value: T) => boolean
+): Promise<CachedConditions<T>> {
+  const existing = inFlight.get(key) as Promise<CachedConditions<T>> | undefined;
+  if (existing) return existing;
+
+  const promise = (async () => {
+    try {
+      const entry = { value: await loader(), storedAt: Date.now() };
+      if (!cacheable(entry.value)) return entry;
+      try {
+        await backend.set(key, entry);
+      } catch (error) {
+        console.error(`❌ Conditions cache write failed (${backend.name}):`, error);
+      }
+      return entry;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+// Fresh entries are served as-is. Entries past the TTL but inside the stale window are
+// served immediately while a background load refreshes them. Anything older is a miss.
+// Results rejected by `cacheable` (e.g. upstream failures) are returned but never stored.
+export async function getCachedOrLoad<T>(
+  key: string,
+  loader: () => Promise<T>,
+  { bypass = false, cacheable = () => true }: { bypass?: boolean; cacheable?: (value: T) => boolean } = {}
+): Promise<CacheLookup<T>> {
+  const backend = getCacheBackend();
+  const { ttlSeconds, staleSeconds } = getCachePolicy();
+  const ttlMs = ttlSeconds * 1000;
+
+  if (!bypass) {
+    let cached: CachedConditions<T> | null = null;
+    try {
+      cached = await backend.get<T>(key);
+    } catch (error) {
+      console.error(`❌ Conditions cache read failed (${backend.name}):`, error);
+    }
+
+    if (cached) {
+      const age = Date.now() - cached.storedAt;
+      const validUntil = cached.storedAt + ttlMs;
+
+      if (age < ttlMs) {
+        return { value: cached.value, status: 'hit', storedAt: cached.storedAt, validUntil };
+      }
+
+      if (age < ttlMs + staleSeconds * 1000) {
+        load(backend, key, loader, cacheable).catch(error => {
+          console.error(`❌ Background revalidation failed for ${key}:`, error);
+        });
+        return { value: cached.value, status: 'stale', storedAt: cached.storedAt, validUntil };
+      }
+    }
+  }
+
+  const entry = await load(backend, key, loader, cacheable);
+  return { value: entry.value, status: bypass ? 'bypass' : 'miss', storedAt: entry.storedAt, validUntil: entry.storedAt + ttlMs };
+}
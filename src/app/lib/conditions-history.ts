@@ -0,0 +1,40 @@
+import type { Location } from './locations';
+import type { ConditionsSnapshot } from './db';
+
+export const MAX_HISTORY_DAYS = 366;
+
+export function getHistoryRetentionDays(): number {
+  const parsed = parseInt(process.env.CONDITIONS_HISTORY_RETENTION_DAYS ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 365;
+}
+
+// Flattens a /api/surfability payload into one conditions_history row
+export function toConditionsSnapshot(location: Location, payload: Record<string, any>): ConditionsSnapshot {
+  const { details, weather } = payload;
+  return {
+    location: location.slug,
+    recorded_at: payload.timestamp,
+    wave_height_ft: details.wave_height_ft,
+    wave_period_sec: details.wave_period_sec,
+    swell_direction_deg: details.swell_direction_deg,
+    wind_speed_kts: details.wind_speed_kts,
+    wind_direction_deg: details.wind_direction_deg,
+    tide_height_ft: details.tide_height_ft,
+    tide_state: details.tide_state,
+    air_temperature_c: weather?.air_temperature_c ?? null,
+    water_temperature_c: weather?.water_temperature_c ?? null,
+    score: payload.score,
+    rating: payload.rating,
+  };
+}
+
+// Best-effort: a failed archive write must never fail the conditions request.
+// db.ts is imported lazily so surfability keeps working without a database.
+export async function recordConditionsSnapshot(location: Location, payload: Record<string, any>): Promise<void> {
+  try {
+    const { saveConditionsSnapshot } = await import('./db');
+    await saveConditionsSnapshot(toConditionsSnapshot(location, payload));
+  } catch (error) {
+    console.error(`❌ Failed to archive conditions for ${location.name}:`, error);
+  }
+}
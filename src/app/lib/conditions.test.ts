@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getCurrentConditions } from './conditions';
+import { SEED_LOCATIONS } from './locations';
+
+const saveConditionsSnapshot = vi.fn();
+vi.mock('./db', () => ({ saveConditionsSnapshot }));
+
+// Replays the recorded upstream responses through the real parsers, scoring and payload
+beforeAll(() => {
+  vi.stubEnv('SURF_PROVIDERS', 'fixture');
+  vi.stubEnv('SURFABILITY_CACHE_BACKEND', 'memory');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  saveConditionsSnapshot.mockClear();
+});
+
+function location(slug: string) {
+  return SEED_LOCATIONS.find(l => l.slug === slug)!;
+}
+
+describe('getCurrentConditions with SURF_PROVIDERS=fixture', () => {
+  it('builds the St. Augustine payload from the recorded responses', async () => {
+    const result = await getCurrentConditions(location('st-augustine'));
+    if (!result.ok) throw new Error(result.unavailable.details);
+    const { payload } = result;
+
+    expect(payload.locationSlug).toBe('st-augustine');
+    expect(payload.details).toMatchObject({
+      wave_height_ft: 4,
+      wave_period_sec: 8.4,
+      swell_direction_compass: 'ENE',
+      wind_direction_compass: 'WNW',
+      tide_state: expect.stringMatching(/Rising/),
+      data_source: 'Real-time APIs (no estimates or fallbacks)',
+    });
+    expect(payload.details.wind_direction_description).toMatch(/offshore/);
+    expect(payload.weather).toMatchObject({ weather_code: 2, weather_description: 'Partly cloudy', water_temperature_f: 78 });
+    expect(payload.tides.next_high).toMatchObject({ height: 4.9 });
+    expect(payload._debug.dataSourcesUsed).toEqual(['marine: fixture', 'tide: fixture', 'weather: fixture']);
+    expect(payload.score).toBeGreaterThanOrEqual(65);
+  });
+
+  it('scores the west-facing Huntington Beach fixture against its own coast', async () => {
+    const result = await getCurrentConditions(location('huntington-beach'));
+    if (!result.ok) throw new Error(result.unavailable.details);
+    const { details } = result.payload;
+
+    expect(details.swell_direction_compass).toBe('SSW');
+    expect(details.swell_direction_description).toMatch(/direct, favorable/);
+    expect(details.wind_direction_compass).toBe('NE');
+    expect(details.wind_direction_description).toMatch(/offshore/);
+    expect(details.tide_state).toMatch(/Falling/);
+    expect(result.payload.surfable).toBe(true);
+  });
+
+  it('reports the source as unavailable when a location has no fixture', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await getCurrentConditions(location('oahu'));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.unavailable.error).toBe('Real marine conditions unavailable');
+      expect(result.unavailable.details).toContain('No recorded fixture for oahu');
+    }
+  });
+});
+
+describe('/api/surfability with SURF_PROVIDERS=fixture', () => {
+  it('serves fixture conditions, archives the read and caches it', async () => {
+    const { GET } = await import('@/api/surfability/route');
+    const request = () => new NextRequest('http://localhost/api/surfability?location=huntington-beach');
+
+    const first = await GET(request());
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-Cache-Status')).toBe('miss');
+    const body = await first.json();
+    expect(body.locationSlug).toBe('huntington-beach');
+    expect(saveConditionsSnapshot).toHaveBeenCalledTimes(1);
+    expect(saveConditionsSnapshot.mock.calls[0][0]).toMatchObject({ location: 'huntington-beach', score: body.score });
+
+    const second = await GET(request());
+    expect(second.headers.get('X-Cache-Status')).toBe('hit');
+    expect(await second.json()).toEqual(body);
+    expect(saveConditionsSnapshot).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns 400 for an unknown location', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { GET } = await import('@/api/surfability/route');
+    const response = await GET(new NextRequest('http://localhost/api/surfability?location=nowhere'));
+    expect(response.status).toBe(400);
+  });
+});
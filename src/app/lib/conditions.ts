@@ -0,0 +1,203 @@
+import type { Location } from './locations';
+import {
+  calculateSurfability,
+  degreesToCompass,
+  formatWaveComponents,
+  getSwellDirectionDescription,
+  getWindDescription,
+  type SurfData,
+} from './surfability';
+import type { TideEvent } from './tides';
+import { fetchMarineConditions, fetchTideConditions, fetchWeatherConditions } from './providers';
+import { getCachedOrLoad, type CacheLookup } from './conditions-cache';
+import { recordConditionsSnapshot } from './conditions-history';
+
+// Weather code descriptions
+const weatherDescriptions: { [key: number]: string } = {
+  0: "Clear sky",
+  1: "Mainly clear",
+  2: "Partly cloudy",
+  3: "Overcast",
+  45: "Fog",
+  48: "Depositing rime fog",
+  51: "Light drizzle",
+  53: "Moderate drizzle",
+  55: "Dense drizzle",
+  61: "Slight rain",
+  63: "Moderate rain",
+  65: "Heavy rain",
+  80: "Slight rain showers",
+  81: "Moderate rain showers",
+  82: "Violent rain showers",
+  95: "Thunderstorm",
+  96: "Thunderstorm with slight hail",
+  99: "Thunderstorm with heavy hail"
+};
+
+export interface ConditionsUnavailable {
+  error: string;
+  details: string;
+  timestamp: string;
+  retryAfter?: string;
+}
+
+// The /api/surfability payload, or the 503 body naming which upstream gave out.
+// Returned rather than thrown so the caller can cache successes and pass failures through.
+export type ConditionsResult =
+  | { ok: true; payload: Record<string, any> }
+  | { ok: false; unavailable: ConditionsUnavailable };
+
+function unavailable(body: ConditionsUnavailable): ConditionsResult {
+  return { ok: false, unavailable: body };
+}
+
+export async function getCurrentConditions(location: Location): Promise<ConditionsResult> {
+  const startTime = Date.now();
+
+  // Step 1: Marine data
+  let marineResult;
+  try {
+    marineResult = await fetchMarineConditions(location);
+  } catch (error) {
+    return unavailable({
+      error: 'Real marine conditions unavailable',
+      details: error instanceof Error ? error.message : 'Unknown marine data error',
+      timestamp: new Date().toISOString(),
+      retryAfter: '5-15 minutes'
+    });
+  }
+
+  // Step 2: Tide data
+  let tideResult;
+  try {
+    tideResult = await fetchTideConditions(location);
+  } catch (error) {
+    return unavailable({
+      error: 'Real tide conditions unavailable',
+      details: error instanceof Error ? error.message : 'Unknown tide error',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Step 3: Weather data
+  let weatherResult;
+  try {
+    weatherResult = await fetchWeatherConditions(location);
+  } catch (error) {
+    return unavailable({
+      error: 'Weather conditions unavailable',
+      details: error instanceof Error ? error.message : 'Unknown weather error',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const marineData = marineResult.data;
+  const tideData = tideResult.data;
+  const weatherData = weatherResult.data;
+  const { windSpeed, windDirection } = weatherData;
+
+  const providerResults = { marine: marineResult, tide: tideResult, weather: weatherResult };
+  const fallbacksUsed = Object.values(providerResults).some(r => r.fallbacks.length > 0);
+
+  const swellCompass = degreesToCompass(marineData.swellDirection);
+  const windCompass = degreesToCompass(windDirection);
+  const windDescription = getWindDescription(windDirection, windSpeed, location.coastFacingDeg);
+  const swellDescription = getSwellDirectionDescription(marineData.swellDirection, location.coastFacingDeg);
+
+  const currentSurfData: SurfData = {
+    waveHeight: marineData.waveHeight,
+    wavePeriod: marineData.wavePeriod,
+    swellDirection: marineData.swellDirection,
+    windDirection,
+    windSpeed,
+    tide: tideData.state,
+    tideHeight: tideData.currentHeight,
+    components: marineData.components,
+  };
+
+  const { score, surfable, rating, funRating } = calculateSurfability(currentSurfData, location.coastFacingDeg);
+
+  const formatTideTime = (tideEvent: TideEvent | null) => {
+    if (!tideEvent) return null;
+    const time = new Date(tideEvent.timestamp);
+    return {
+      time: time.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone: location.timezone }),
+      height: Math.round(tideEvent.height * 10) / 10,
+      timestamp: tideEvent.timestamp
+    };
+  };
+
+  const responseTime = Date.now() - startTime;
+
+  const payload = {
+    location: location.name,
+    locationSlug: location.slug,
+    timestamp: new Date().toISOString(),
+    surfable,
+    rating: funRating,
+    score,
+    goodSurfDuration: "Based on real-time conditions",
+    dataQuality: 'real-time-verified',
+    details: {
+      wave_height_ft: Math.round(marineData.waveHeight * 10) / 10,
+      wave_period_sec: Math.round(marineData.wavePeriod * 10) / 10,
+      swell_direction_deg: Math.round(marineData.swellDirection),
+      swell_direction_compass: swellCompass,
+      swell_direction_text: `${swellCompass} swell (from ${swellCompass})`,
+      swell_direction_description: swellDescription,
+      swell_components: formatWaveComponents(marineData.components, location.coastFacingDeg),
+      wind_direction_deg: Math.round(windDirection),
+      wind_direction_compass: windCompass,
+      wind_direction_text: `${windCompass} wind (from ${windCompass})`,
+      wind_direction_description: windDescription,
+      wind_speed_kts: Math.round(windSpeed * 10) / 10,
+      tide_state: tideData.state,
+      tide_height_ft: Math.round(tideData.currentHeight * 10) / 10,
+      data_source: fallbacksUsed ? 'Real-time APIs (fallback provider used)' : 'Real-time APIs (no estimates or fallbacks)'
+    },
+    weather: {
+      air_temperature_c: Math.round(weatherData.airTemperature),
+      air_temperature_f: Math.round(weatherData.airTemperature * 9 / 5 + 32),
+      water_temperature_c: Math.round(marineData.waterTemp),
+      water_temperature_f: Math.round(marineData.waterTemp * 9 / 5 + 32),
+      weather_code: weatherData.weatherCode,
+      weather_description: weatherDescriptions[weatherData.weatherCode] || 'Unknown conditions'
+    },
+    tides: {
+      current_height_ft: Math.round(tideData.currentHeight * 10) / 10,
+      state: tideData.state,
+      next_high: formatTideTime(tideData.nextHigh),
+      next_low: formatTideTime(tideData.nextLow),
+      previous_high: formatTideTime(tideData.previousHigh),
+      previous_low: formatTideTime(tideData.previousLow),
+      station: `NOAA ${location.noaaStationId} (${location.name})`
+    },
+    _debug: {
+      responseTime: `${responseTime}ms`,
+      dataSourcesUsed: Object.entries(providerResults).map(([kind, r]) => `${kind}: ${r.provider}`),
+      fallbacks: Object.fromEntries(
+        Object.entries(providerResults)
+          .filter(([, r]) => r.fallbacks.length > 0)
+          .map(([kind, r]) => [kind, r.fallbacks])
+      ),
+      noFallbacksUsed: !fallbacksUsed
+    }
+  };
+
+  return { ok: true, payload };
+}
+
+// The cached read behind /api/surfability, shared with report freshness checks so
+// both hit the same cache entry
+export function getCachedCurrentConditions(location: Location, bypass = false): Promise<CacheLookup<ConditionsResult>> {
+  return getCachedOrLoad<ConditionsResult>(
+    `surfability:${location.slug}`,
+    async () => {
+      const conditions = await getCurrentConditions(location);
+      // Archive every fresh upstream read; cache hits are the same reading again
+      if (conditions.ok) await recordConditionsSnapshot(location, conditions.payload);
+      return conditions;
+    },
+    { bypass, cacheable: result => result.ok }
+  );
+}
@@ -0,0 +1,38 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Approximate sunrise/sunset in UTC for the given date (±15–20 min accuracy).
+// Same declination model as the Bun service's getDaylightWindow, but solar noon
+// is placed from longitude so it works for any day without a timezone lookup.
+export function getDaylightWindowUtc(lat: number, lon: number, date: Date): { sunrise: Date; sunset: Date } {
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 0);
+  const dayOfYear = Math.floor((date.getTime() - startOfYear) / DAY_MS);
+
+  // Solar declination
+  const decl = -23.45 * Math.cos(2 * Math.PI * (dayOfYear + 10) / 365.25);
+
+  // Hour angle at sunrise/sunset (cos = -tan(lat)*tan(decl))
+  const cosHA = -Math.tan(lat * Math.PI / 180) * Math.tan(decl * Math.PI / 180);
+
+  const midnightUtc = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const solarNoonHours = 12 - lon / 15;
+
+  let ha: number;
+  if (cosHA > 1) ha = 0;          // polar night
+  else if (cosHA < -1) ha = 12;   // midnight sun
+  else ha = (Math.acos(cosHA) * 180 / Math.PI) / 15;  // hours from solar noon
+
+  return {
+    sunrise: new Date(midnightUtc + (solarNoonHours - ha) * 60 * 60 * 1000),
+    sunset: new Date(midnightUtc + (solarNoonHours + ha) * 60 * 60 * 1000),
+  };
+}
+
+// An hour counts as daylight if it starts after sunrise and before sunset.
+// Checks the neighbouring UTC days too, since local daylight can straddle midnight UTC.
+export function isDaylight(lat: number, lon: number, at: Date): boolean {
+  for (const offset of [-1, 0, 1]) {
+    const { sunrise, sunset } = getDaylightWindowUtc(lat, lon, new Date(at.getTime() + offset * DAY_MS));
+    if (at >= sunrise && at < sunset) return true;
+  }
+  return false;
+}
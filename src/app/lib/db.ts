@@ -1,6 +1,9 @@
 import { neon } from '@neondatabase/serverless';
 import { config } from 'dotenv';
 import type { SurfReport } from '../types/surf-report';
+import { SEED_LOCATIONS, type Location } from './locations';
+import type { UserProfile } from '../types/user-profile';
+import type { AlertRule, AlertRuleDelivery, PushSubscriptionData } from '../types/alerts';
 
 // Load environment variables in development
 if (process.env.NODE_ENV !== 'production') {
@@ -65,6 +68,200 @@ export async function initializeDatabase() {
       CREATE INDEX IF NOT EXISTS idx_surf_reports_cleanup
       ON surf_reports(location, created_at)
     `;
+
+    // Added after launch, so existing tables pick them up here
+    await sql`ALTER TABLE surf_reports ADD COLUMN IF NOT EXISTS prompt_version TEXT`;
+    await sql`ALTER TABLE surf_reports ADD COLUMN IF NOT EXISTS generation_meta JSONB`;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS report_feedback (
+        id SERIAL PRIMARY KEY,
+        report_id TEXT NOT NULL,
+        helpful BOOLEAN NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_report_feedback_report
+      ON report_feedback(report_id)
+    `;
+
+    // One row per location while a visitor-triggered generation runs; expired rows
+    // are taken over, so a crashed holder only blocks others until expires_at
+    await sql`
+      CREATE TABLE IF NOT EXISTS report_generation_leases (
+        location TEXT PRIMARY KEY,
+        holder TEXT NOT NULL,
+        acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL
+      )
+    `;
+
+    // Location registry, seeded with the built-in spots the first time only so
+    // admin deletes of those spots stick across cold starts
+    await sql`
+      CREATE TABLE IF NOT EXISTS locations (
+        slug TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        lat DOUBLE PRECISION NOT NULL,
+        lon DOUBLE PRECISION NOT NULL,
+        noaa_station_id TEXT NOT NULL,
+        timezone TEXT NOT NULL,
+        coast_facing_deg REAL NOT NULL,
+        best_spots JSONB NOT NULL DEFAULT '[]',
+        local_knowledge TEXT NOT NULL DEFAULT '',
+        voice_descriptor TEXT NOT NULL DEFAULT '',
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    // Local hours the cron generates reports at; NULL uses DEFAULT_REPORT_HOURS
+    await sql`ALTER TABLE locations ADD COLUMN IF NOT EXISTS report_hours JSONB`;
+
+    // Per-location overrides for report cache invalidation; NULL uses DEFAULT_FRESHNESS_THRESHOLDS
+    await sql`ALTER TABLE locations ADD COLUMN IF NOT EXISTS freshness_thresholds JSONB`;
+
+    // One job per location and scheduled slot (idempotency_key), retried with backoff
+    // until it succeeds or runs out of attempts and goes dead
+    await sql`
+      CREATE TABLE IF NOT EXISTS report_jobs (
+        id SERIAL PRIMARY KEY,
+        idempotency_key TEXT NOT NULL UNIQUE,
+        location TEXT NOT NULL,
+        slot TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        locked_until TIMESTAMPTZ,
+        last_error TEXT,
+        report_id TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        finished_at TIMESTAMPTZ
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_report_jobs_status
+      ON report_jobs(status, next_attempt_at)
+    `;
+
+    const [{ count }] = await sql`SELECT COUNT(*)::int AS count FROM locations`;
+    if (count === 0) {
+      for (let i = 0; i < SEED_LOCATIONS.length; i++) {
+        await insertLocationRow(SEED_LOCATIONS[i], i);
+      }
+      console.log(`🌱 Seeded ${SEED_LOCATIONS.length} locations`);
+    }
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS user_profiles (
+        id TEXT PRIMARY KEY,
+        skill_level TEXT NOT NULL,
+        preferred_board TEXT NOT NULL,
+        wetsuit_tolerance TEXT NOT NULL,
+        favorite_locations JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    // One row per browser push subscription; alert rules hang off the endpoint
+    await sql`
+      CREATE TABLE IF NOT EXISTS push_subscriptions (
+        endpoint TEXT PRIMARY KEY,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        expiration_time TIMESTAMPTZ,
+        user_agent TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id TEXT PRIMARY KEY,
+        location TEXT NOT NULL,
+        min_score INTEGER NOT NULL,
+        max_wind_kts REAL,
+        min_period_sec REAL,
+        daylight_only BOOLEAN NOT NULL DEFAULT TRUE,
+        endpoint TEXT NOT NULL REFERENCES push_subscriptions(endpoint) ON DELETE CASCADE,
+        event_active BOOLEAN NOT NULL DEFAULT FALSE,
+        last_notified_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_alert_rules_endpoint
+      ON alert_rules(endpoint)
+    `;
+
+    // One row per report once its validity window has passed: what the report said
+    // against the hindcast for the hours it was served
+    await sql`
+      CREATE TABLE IF NOT EXISTS forecast_accuracy (
+        report_id TEXT PRIMARY KEY,
+        location TEXT NOT NULL,
+        report_timestamp TIMESTAMPTZ NOT NULL,
+        window_end TIMESTAMPTZ NOT NULL,
+        samples INTEGER NOT NULL,
+        predicted_wave_height_ft REAL NOT NULL,
+        predicted_wind_speed_kts REAL NOT NULL,
+        predicted_score INTEGER NOT NULL,
+        observed_wave_height_ft REAL,
+        observed_wind_speed_kts REAL,
+        observed_score REAL,
+        observed_peak_score INTEGER,
+        observed_peak_at TIMESTAMPTZ,
+        wave_height_error_ft REAL,
+        wind_speed_error_kts REAL,
+        score_error REAL,
+        evaluated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_forecast_accuracy_location_timestamp
+      ON forecast_accuracy(location, report_timestamp DESC)
+    `;
+
+    // Every fresh /api/surfability payload, kept on its own retention schedule
+    await sql`
+      CREATE TABLE IF NOT EXISTS conditions_history (
+        id BIGSERIAL PRIMARY KEY,
+        location TEXT NOT NULL,
+        recorded_at TIMESTAMPTZ NOT NULL,
+        wave_height_ft REAL NOT NULL,
+        wave_period_sec REAL NOT NULL,
+        swell_direction_deg REAL NOT NULL,
+        wind_speed_kts REAL NOT NULL,
+        wind_direction_deg REAL NOT NULL,
+        tide_height_ft REAL NOT NULL,
+        tide_state TEXT NOT NULL,
+        air_temperature_c REAL,
+        water_temperature_c REAL,
+        score INTEGER NOT NULL,
+        rating TEXT NOT NULL,
+        UNIQUE (location, recorded_at)
+      )
+    `;
+
+    // Short-lived /api/surfability payloads, one row per location
+    await sql`
+      CREATE TABLE IF NOT EXISTS conditions_cache (
+        location TEXT PRIMARY KEY,
+        payload JSONB NOT NULL,
+        stored_at TIMESTAMPTZ NOT NULL
+      )
+    `;
     
     console.log('✅ Database initialized with fixed indexes');
   } catch (error) {
@@ -142,7 +339,8 @@ export async function saveReport(report: SurfReport): Promise<void> {
     // Use a transaction for consistency
     await sql`
       INSERT INTO surf_reports (
-        id, timestamp, location, report, conditions, recommendations, cached_until
+        id, timestamp, location, report, conditions, recommendations, cached_until,
+        prompt_version, generation_meta
       ) VALUES (
         ${report.id},
         ${report.timestamp},
@@ -150,7 +348,9 @@ export async function saveReport(report: SurfReport): Promise<void> {
         ${report.report},
         ${JSON.stringify(report.conditions)},
         ${JSON.stringify(report.recommendations)},
-        ${report.cached_until}
+        ${report.cached_until},
+        ${report.generation_meta?.prompt_version ?? null},
+        ${report.generation_meta ? JSON.stringify(report.generation_meta) : null}
       )
     `;
     
@@ -198,6 +398,77 @@ export async function cleanupOldReports(retentionHours: number = 24): Promise<nu
   }
 }
 
+export interface ReportDaySummary {
+  date: string;
+  count: number;
+  avg_score: number;
+  max_score: number;
+}
+
+function toSurfReport(row: Record<string, any>): SurfReport {
+  return {
+    id: row.id,
+    timestamp: new Date(row.timestamp).toISOString(),
+    location: row.location,
+    report: row.report,
+    conditions: row.conditions,
+    recommendations: row.recommendations,
+    cached_until: new Date(row.cached_until).toISOString()
+  };
+}
+
+// Reports from one local calendar day (YYYY-MM-DD in the spot's timezone), oldest first
+export async function getReportsForDay(location: string, date: string, timezone: string): Promise<SurfReport[]> {
+  await ensureInitialized();
+  const rows = await sql`
+    SELECT id, timestamp, location, report, conditions, recommendations, cached_until
+    FROM surf_reports
+    WHERE location = ${location}
+      AND (timestamp AT TIME ZONE ${timezone})::date = ${date}::date
+    ORDER BY timestamp ASC
+  `;
+  return rows.map(toSurfReport);
+}
+
+// One row per local day that has reports, newest first
+export async function getReportDays(location: string, timezone: string, limit: number): Promise<ReportDaySummary[]> {
+  await ensureInitialized();
+  const rows = await sql`
+    SELECT to_char(timestamp AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS date,
+           COUNT(*) AS count,
+           ROUND(AVG((conditions->>'surfability_score')::numeric)) AS avg_score,
+           MAX((conditions->>'surfability_score')::numeric) AS max_score
+    FROM surf_reports
+    WHERE location = ${location}
+    GROUP BY 1
+    ORDER BY 1 DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(row => ({
+    date: row.date,
+    count: Number(row.count),
+    avg_score: Number(row.avg_score),
+    max_score: Number(row.max_score),
+  }));
+}
+
+export async function cleanupReportHistory(retentionDays: number): Promise<number> {
+  try {
+    await ensureInitialized();
+    const result = await sql`
+      DELETE FROM surf_reports
+      WHERE timestamp < NOW() - ${retentionDays} * INTERVAL '1 day'
+      RETURNING id
+    `;
+
+    console.log(`🗑️ Cleaned up ${result.length} old reports (>${retentionDays}d)`);
+    return result.length;
+  } catch (error) {
+    console.error('❌ Error cleaning up report history:', error);
+    return 0;
+  }
+}
+
 // NEW: Get cache statistics for monitoring
 export async function getCacheStats(): Promise<{
   totalReports: number;
@@ -232,4 +503,836 @@ export async function getCacheStats(): Promise<{
       newestReport: null
     };
   }
-}
\ No newline at end of file
+}
+
+export async function getCachedConditions(location: string): Promise<{ payload: unknown; storedAt: string } | null> {
+  await ensureInitialized();
+  const result = await sql`
+    SELECT payload, stored_at
+    FROM conditions_cache
+    WHERE location = ${location}
+  `;
+
+  if (result.length === 0) return null;
+  return { payload: result[0].payload, storedAt: new Date(result[0].stored_at).toISOString() };
+}
+
+export async function saveCachedConditions(location: string, payload: unknown, storedAt: string): Promise<void> {
+  await ensureInitialized();
+  await sql`
+    INSERT INTO conditions_cache (location, payload, stored_at)
+    VALUES (${location}, ${JSON.stringify(payload)}, ${storedAt})
+    ON CONFLICT (location) DO UPDATE
+    SET payload = EXCLUDED.payload, stored_at = EXCLUDED.stored_at
+    WHERE conditions_cache.stored_at < EXCLUDED.stored_at
+  `;
+}
+
+export interface ConditionsSnapshot {
+  location: string;
+  recorded_at: string;
+  wave_height_ft: number;
+  wave_period_sec: number;
+  swell_direction_deg: number;
+  wind_speed_kts: number;
+  wind_direction_deg: number;
+  tide_height_ft: number;
+  tide_state: string;
+  air_temperature_c: number | null;
+  water_temperature_c: number | null;
+  score: number;
+  rating: string;
+}
+
+export type HistoryBucket = 'raw' | 'hour' | 'day';
+
+export async function saveConditionsSnapshot(snapshot: ConditionsSnapshot): Promise<void> {
+  await ensureInitialized();
+  await sql`
+    INSERT INTO conditions_history (
+      location, recorded_at, wave_height_ft, wave_period_sec, swell_direction_deg,
+      wind_speed_kts, wind_direction_deg, tide_height_ft, tide_state,
+      air_temperature_c, water_temperature_c, score, rating
+    ) VALUES (
+      ${snapshot.location},
+      ${snapshot.recorded_at},
+      ${snapshot.wave_height_ft},
+      ${snapshot.wave_period_sec},
+      ${snapshot.swell_direction_deg},
+      ${snapshot.wind_speed_kts},
+      ${snapshot.wind_direction_deg},
+      ${snapshot.tide_height_ft},
+      ${snapshot.tide_state},
+      ${snapshot.air_temperature_c},
+      ${snapshot.water_temperature_c},
+      ${snapshot.score},
+      ${snapshot.rating}
+    )
+    ON CONFLICT (location, recorded_at) DO NOTHING
+  `;
+}
+
+// Raw snapshots, or hourly/daily averages for longer chart ranges.
+// Bucketed rows take the tide state and rating of the last snapshot in the bucket,
+// and average directions on the circle so 350° and 10° come out as 0°, not 180°.
+export async function getConditionsHistory(
+  location: string,
+  from: string,
+  to: string,
+  bucket: HistoryBucket = 'raw'
+): Promise<ConditionsSnapshot[]> {
+  await ensureInitialized();
+
+  const rows = bucket === 'raw'
+    ? await sql`
+        SELECT location, recorded_at, wave_height_ft, wave_period_sec, swell_direction_deg,
+               wind_speed_kts, wind_direction_deg, tide_height_ft, tide_state,
+               air_temperature_c, water_temperature_c, score, rating
+        FROM conditions_history
+        WHERE location = ${location} AND recorded_at >= ${from} AND recorded_at <= ${to}
+        ORDER BY recorded_at ASC
+      `
+    : await sql`
+        SELECT location,
+               date_trunc(${bucket}, recorded_at) AS recorded_at,
+               AVG(wave_height_ft) AS wave_height_ft,
+               AVG(wave_period_sec) AS wave_period_sec,
+               DEGREES(ATAN2(AVG(SIN(RADIANS(swell_direction_deg))), AVG(COS(RADIANS(swell_direction_deg))))) AS swell_direction_deg,
+               AVG(wind_speed_kts) AS wind_speed_kts,
+               DEGREES(ATAN2(AVG(SIN(RADIANS(wind_direction_deg))), AVG(COS(RADIANS(wind_direction_deg))))) AS wind_direction_deg,
+               AVG(tide_height_ft) AS tide_height_ft,
+               (ARRAY_AGG(tide_state ORDER BY recorded_at DESC))[1] AS tide_state,
+               AVG(air_temperature_c) AS air_temperature_c,
+               AVG(water_temperature_c) AS water_temperature_c,
+               ROUND(AVG(score)) AS score,
+               (ARRAY_AGG(rating ORDER BY recorded_at DESC))[1] AS rating
+        FROM conditions_history
+        WHERE location = ${location} AND recorded_at >= ${from} AND recorded_at <= ${to}
+        GROUP BY 1, 2
+        ORDER BY 2 ASC
+      `;
+
+  const round = (value: unknown) => value === null ? null : Math.round(Number(value) * 10) / 10;
+
+  return rows.map(row => ({
+    location: row.location,
+    recorded_at: new Date(row.recorded_at).toISOString(),
+    wave_height_ft: round(row.wave_height_ft)!,
+    wave_period_sec: round(row.wave_period_sec)!,
+    swell_direction_deg: (Math.round(Number(row.swell_direction_deg)) + 360) % 360,
+    wind_speed_kts: round(row.wind_speed_kts)!,
+    wind_direction_deg: (Math.round(Number(row.wind_direction_deg)) + 360) % 360,
+    tide_height_ft: round(row.tide_height_ft)!,
+    tide_state: row.tide_state,
+    air_temperature_c: round(row.air_temperature_c),
+    water_temperature_c: round(row.water_temperature_c),
+    score: Number(row.score),
+    rating: row.rating,
+  }));
+}
+
+export async function cleanupConditionsHistory(retentionDays: number): Promise<number> {
+  try {
+    await ensureInitialized();
+    const result = await sql`
+      DELETE FROM conditions_history
+      WHERE recorded_at < NOW() - ${retentionDays} * INTERVAL '1 day'
+      RETURNING id
+    `;
+
+    console.log(`🗑️ Cleaned up ${result.length} conditions snapshots (>${retentionDays}d)`);
+    return result.length;
+  } catch (error) {
+    console.error('❌ Error cleaning up conditions history:', error);
+    return 0;
+  }
+}
+
+export interface LocationRow extends Location {
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toLocationRow(row: Record<string, any>): LocationRow {
+  return {
+    slug: row.slug,
+    name: row.name,
+    lat: Number(row.lat),
+    lon: Number(row.lon),
+    noaaStationId: row.noaa_station_id,
+    timezone: row.timezone,
+    coastFacingDeg: Number(row.coast_facing_deg),
+    bestSpots: row.best_spots,
+    localKnowledge: row.local_knowledge,
+    voiceDescriptor: row.voice_descriptor,
+    ...(row.report_hours && { reportHours: row.report_hours }),
+    ...(row.freshness_thresholds && { freshnessThresholds: row.freshness_thresholds }),
+    enabled: row.enabled,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+export async function getLocationRows(): Promise<LocationRow[]> {
+  await ensureInitialized();
+  const rows = await sql`
+    SELECT * FROM locations
+    ORDER BY sort_order ASC, created_at ASC
+  `;
+  return rows.map(toLocationRow);
+}
+
+export async function getLocationRow(slug: string): Promise<LocationRow | null> {
+  await ensureInitialized();
+  const rows = await sql`SELECT * FROM locations WHERE slug = ${slug}`;
+  return rows.length > 0 ? toLocationRow(rows[0]) : null;
+}
+
+// Not wrapped in ensureInitialized because seeding calls it mid-initialisation
+async function insertLocationRow(location: Location, sortOrder: number): Promise<void> {
+  await sql`
+    INSERT INTO locations (
+      slug, name, lat, lon, noaa_station_id, timezone, coast_facing_deg,
+      best_spots, local_knowledge, voice_descriptor, report_hours, freshness_thresholds, sort_order
+    ) VALUES (
+      ${location.slug},
+      ${location.name},
+      ${location.lat},
+      ${location.lon},
+      ${location.noaaStationId},
+      ${location.timezone},
+      ${location.coastFacingDeg},
+      ${JSON.stringify(location.bestSpots)},
+      ${location.localKnowledge},
+      ${location.voiceDescriptor},
+      ${location.reportHours ? JSON.stringify(location.reportHours) : null},
+      ${location.freshnessThresholds ? JSON.stringify(location.freshnessThresholds) : null},
+      ${sortOrder}
+    )
+  `;
+}
+
+// New spots go to the end of the list
+export async function createLocationRow(location: Location): Promise<LocationRow> {
+  await ensureInitialized();
+  const [{ next }] = await sql`SELECT COALESCE(MAX(sort_order) + 1, 0) AS next FROM locations`;
+  await insertLocationRow(location, Number(next));
+  console.log(`✅ Location created: ${location.slug}`);
+  return (await getLocationRow(location.slug))!;
+}
+
+export async function updateLocationRow(location: Location & { enabled: boolean }): Promise<LocationRow | null> {
+  await ensureInitialized();
+  const rows = await sql`
+    UPDATE locations SET
+      name = ${location.name},
+      lat = ${location.lat},
+      lon = ${location.lon},
+      noaa_station_id = ${location.noaaStationId},
+      timezone = ${location.timezone},
+      coast_facing_deg = ${location.coastFacingDeg},
+      best_spots = ${JSON.stringify(location.bestSpots)},
+      local_knowledge = ${location.localKnowledge},
+      voice_descriptor = ${location.voiceDescriptor},
+      report_hours = ${location.reportHours ? JSON.stringify(location.reportHours) : null},
+      freshness_thresholds = ${location.freshnessThresholds ? JSON.stringify(location.freshnessThresholds) : null},
+      enabled = ${location.enabled},
+      updated_at = NOW()
+    WHERE slug = ${location.slug}
+    RETURNING *
+  `;
+  return rows.length > 0 ? toLocationRow(rows[0]) : null;
+}
+
+export async function deleteLocationRow(slug: string): Promise<boolean> {
+  await ensureInitialized();
+  const rows = await sql`DELETE FROM locations WHERE slug = ${slug} RETURNING slug`;
+  return rows.length > 0;
+}
+
+function toUserProfile(row: Record<string, any>): UserProfile {
+  return {
+    id: row.id,
+    skill_level: row.skill_level,
+    preferred_board: row.preferred_board,
+    wetsuit_tolerance: row.wetsuit_tolerance,
+    favorite_locations: row.favorite_locations,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  };
+}
+
+export async function getUserProfile(id: string): Promise<UserProfile | null> {
+  await ensureInitialized();
+  const rows = await sql`SELECT * FROM user_profiles WHERE id = ${id}`;
+  return rows.length > 0 ? toUserProfile(rows[0]) : null;
+}
+
+export async function saveUserProfile(
+  profile: Omit<UserProfile, 'created_at' | 'updated_at'>
+): Promise<UserProfile> {
+  await ensureInitialized();
+  const rows = await sql`
+    INSERT INTO user_profiles (id, skill_level, preferred_board, wetsuit_tolerance, favorite_locations)
+    VALUES (
+      ${profile.id},
+      ${profile.skill_level},
+      ${profile.preferred_board},
+      ${profile.wetsuit_tolerance},
+      ${JSON.stringify(profile.favorite_locations)}
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      skill_level = EXCLUDED.skill_level,
+      preferred_board = EXCLUDED.preferred_board,
+      wetsuit_tolerance = EXCLUDED.wetsuit_tolerance,
+      favorite_locations = EXCLUDED.favorite_locations,
+      updated_at = NOW()
+    RETURNING *
+  `;
+  return toUserProfile(rows[0]);
+}
+
+export async function deleteUserProfile(id: string): Promise<boolean> {
+  await ensureInitialized();
+  const rows = await sql`DELETE FROM user_profiles WHERE id = ${id} RETURNING id`;
+  return rows.length > 0;
+}
+
+function toPushSubscription(row: Record<string, any>): PushSubscriptionData {
+  return {
+    endpoint: row.endpoint,
+    expirationTime: row.expiration_time ? new Date(row.expiration_time).getTime() : null,
+    keys: { p256dh: row.p256dh, auth: row.auth },
+  };
+}
+
+// Browsers can rotate keys for the same endpoint, so re-subscribing overwrites them
+export async function savePushSubscription(subscription: PushSubscriptionData, userAgent: string | null): Promise<void> {
+  await ensureInitialized();
+  const expiration = subscription.expirationTime ? new Date(subscription.expirationTime).toISOString() : null;
+  await sql`
+    INSERT INTO push_subscriptions (endpoint, p256dh, auth, expiration_time, user_agent)
+    VALUES (${subscription.endpoint}, ${subscription.keys.p256dh}, ${subscription.keys.auth}, ${expiration}, ${userAgent})
+    ON CONFLICT (endpoint) DO UPDATE SET
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      expiration_time = EXCLUDED.expiration_time,
+      user_agent = EXCLUDED.user_agent,
+      updated_at = NOW()
+  `;
+}
+
+export async function getPushSubscription(endpoint: string): Promise<PushSubscriptionData | null> {
+  await ensureInitialized();
+  const rows = await sql`SELECT * FROM push_subscriptions WHERE endpoint = ${endpoint}`;
+  return rows.length > 0 ? toPushSubscription(rows[0]) : null;
+}
+
+// Also removes the subscription's alert rules (ON DELETE CASCADE)
+export async function deletePushSubscription(endpoint: string): Promise<boolean> {
+  await ensureInitialized();
+  const rows = await sql`DELETE FROM push_subscriptions WHERE endpoint = ${endpoint} RETURNING endpoint`;
+  return rows.length > 0;
+}
+
+function toAlertRule(row: Record<string, any>): AlertRule {
+  return {
+    id: row.id,
+    location: row.location,
+    min_score: Number(row.min_score),
+    max_wind_kts: row.max_wind_kts === null ? null : Number(row.max_wind_kts),
+    min_period_sec: row.min_period_sec === null ? null : Number(row.min_period_sec),
+    daylight_only: row.daylight_only,
+    endpoint: row.endpoint,
+    event_active: row.event_active,
+    last_notified_at: row.last_notified_at ? new Date(row.last_notified_at).toISOString() : null,
+    created_at: new Date(row.created_at).toISOString(),
+  };
+}
+
+export async function createAlertRule(
+  rule: Pick<AlertRule, 'id' | 'location' | 'min_score' | 'max_wind_kts' | 'min_period_sec' | 'daylight_only' | 'endpoint'>
+): Promise<AlertRule> {
+  await ensureInitialized();
+  const rows = await sql`
+    INSERT INTO alert_rules (
+      id, location, min_score, max_wind_kts, min_period_sec, daylight_only, endpoint
+    ) VALUES (
+      ${rule.id},
+      ${rule.location},
+      ${rule.min_score},
+      ${rule.max_wind_kts},
+      ${rule.min_period_sec},
+      ${rule.daylight_only},
+      ${rule.endpoint}
+    )
+    RETURNING *
+  `;
+  return toAlertRule(rows[0]);
+}
+
+// Every rule joined with the keys needed to deliver to it
+export async function getAlertRulesForDelivery(): Promise<AlertRuleDelivery[]> {
+  await ensureInitialized();
+  const rows = await sql`
+    SELECT r.*, s.p256dh, s.auth, s.expiration_time
+    FROM alert_rules r
+    JOIN push_subscriptions s ON s.endpoint = r.endpoint
+    ORDER BY r.location, r.created_at
+  `;
+  return rows.map(row => ({ ...toAlertRule(row), subscription: toPushSubscription(row) }));
+}
+
+export async function getAlertRulesByEndpoint(endpoint: string): Promise<AlertRule[]> {
+  await ensureInitialized();
+  const rows = await sql`SELECT * FROM alert_rules WHERE endpoint = ${endpoint} ORDER BY created_at`;
+  return rows.map(toAlertRule);
+}
+
+// Scoped to the endpoint so only the subscription that created a rule can remove it
+export async function deleteAlertRule(id: string, endpoint: string): Promise<boolean> {
+  await ensureInitialized();
+  const rows = await sql`DELETE FROM alert_rules WHERE id = ${id} AND endpoint = ${endpoint} RETURNING id`;
+  return rows.length > 0;
+}
+
+export async function updateAlertRuleState(id: string, eventActive: boolean, notifiedAt?: string): Promise<void> {
+  await ensureInitialized();
+  await sql`
+    UPDATE alert_rules SET
+      event_active = ${eventActive},
+      last_notified_at = COALESCE(${notifiedAt ?? null}::timestamptz, last_notified_at)
+    WHERE id = ${id}
+  `;
+}
+
+export interface ForecastAccuracyRecord {
+  report_id: string;
+  location: string;
+  report_timestamp: string;
+  window_end: string;
+  samples: number;
+  predicted_wave_height_ft: number;
+  predicted_wind_speed_kts: number;
+  predicted_score: number;
+  observed_wave_height_ft: number | null;
+  observed_wind_speed_kts: number | null;
+  observed_score: number | null;
+  observed_peak_score: number | null;
+  observed_peak_at: string | null;
+  // Observed minus predicted; null when there was nothing to compare against
+  wave_height_error_ft: number | null;
+  wind_speed_error_kts: number | null;
+  score_error: number | null;
+}
+
+// Reports whose window has closed (plus a settling delay) and haven't been scored yet
+// Only reports for `locations`, so ones for deleted or disabled locations don't fill the batch
+export async function getReportsAwaitingAccuracy(locations: string[], settledBefore: string, since: string, limit: number): Promise<SurfReport[]> {
+  await ensureInitialized();
+  const rows = await sql`
+    SELECT r.id, r.timestamp, r.location, r.report, r.conditions, r.recommendations, r.cached_until
+    FROM surf_reports r
+    LEFT JOIN forecast_accuracy a ON a.report_id = r.id
+    WHERE a.report_id IS NULL
+      AND r.location = ANY(${locations})
+      AND r.cached_until <= ${settledBefore}
+      AND r.timestamp >= ${since}
+    ORDER BY r.timestamp ASC
+    LIMIT ${limit}
+  `;
+  return rows.map(toSurfReport);
+}
+
+export async function saveForecastAccuracy(record: ForecastAccuracyRecord): Promise<void> {
+  await ensureInitialized();
+  await sql`
+    INSERT INTO forecast_accuracy (
+      report_id, location, report_timestamp, window_end, samples,
+      predicted_wave_height_ft, predicted_wind_speed_kts, predicted_score,
+      observed_wave_height_ft, observed_wind_speed_kts, observed_score,
+      observed_peak_score, observed_peak_at,
+      wave_height_error_ft, wind_speed_error_kts, score_error
+    ) VALUES (
+      ${record.report_id}, ${record.location}, ${record.report_timestamp}, ${record.window_end}, ${record.samples},
+      ${record.predicted_wave_height_ft}, ${record.predicted_wind_speed_kts}, ${record.predicted_score},
+      ${record.observed_wave_height_ft}, ${record.observed_wind_speed_kts}, ${record.observed_score},
+      ${record.observed_peak_score}, ${record.observed_peak_at},
+      ${record.wave_height_error_ft}, ${record.wind_speed_error_kts}, ${record.score_error}
+    )
+    ON CONFLICT (report_id) DO NOTHING
+  `;
+}
+
+export interface ErrorStats {
+  bias: number | null;
+  mae: number | null;
+  rmse: number | null;
+}
+
+export interface ForecastAccuracyStats {
+  location: string;
+  reports: number;
+  compared: number;
+  score: ErrorStats & { within_10_pct: number | null };
+  wave_height_ft: ErrorStats;
+  wind_speed_kts: ErrorStats;
+  // Observed score per predicted rating band, for checking calculateSurfability's thresholds
+  by_predicted_rating: Array<{ rating: string; reports: number; avg_predicted_score: number; avg_observed_score: number | null }>;
+}
+
+export async function getForecastAccuracyStats(since: string, location?: string): Promise<ForecastAccuracyStats[]> {
+  await ensureInitialized();
+  const round = (value: unknown) => value === null ? null : Math.round(Number(value) * 100) / 100;
+
+  const [totals, bands] = await Promise.all([
+    sql`
+      SELECT location,
+             COUNT(*) AS reports,
+             COUNT(score_error) AS compared,
+             AVG(score_error) AS score_bias,
+             AVG(ABS(score_error)) AS score_mae,
+             SQRT(AVG(score_error * score_error)) AS score_rmse,
+             100.0 * COUNT(*) FILTER (WHERE ABS(score_error) <= 10) / NULLIF(COUNT(score_error), 0) AS score_within_10_pct,
+             AVG(wave_height_error_ft) AS wave_bias,
+             AVG(ABS(wave_height_error_ft)) AS wave_mae,
+             SQRT(AVG(wave_height_error_ft * wave_height_error_ft)) AS wave_rmse,
+             AVG(wind_speed_error_kts) AS wind_bias,
+             AVG(ABS(wind_speed_error_kts)) AS wind_mae,
+             SQRT(AVG(wind_speed_error_kts * wind_speed_error_kts)) AS wind_rmse
+      FROM forecast_accuracy
+      WHERE report_timestamp >= ${since} AND (${location ?? null}::text IS NULL OR location = ${location ?? null})
+      GROUP BY location
+      ORDER BY location
+    `,
+    sql`
+      SELECT location,
+             CASE
+               WHEN predicted_score >= 80 THEN 'Excellent'
+               WHEN predicted_score >= 65 THEN 'Good'
+               WHEN predicted_score >= 45 THEN 'Marginal'
+               ELSE 'Poor'
+             END AS rating,
+             COUNT(*) AS reports,
+             AVG(predicted_score) AS avg_predicted_score,
+             AVG(observed_score) AS avg_observed_score
+      FROM forecast_accuracy
+      WHERE report_timestamp >= ${since} AND (${location ?? null}::text IS NULL OR location = ${location ?? null})
+      GROUP BY 1, 2
+      ORDER BY 1, MIN(predicted_score) DESC
+    `,
+  ]);
+
+  return totals.map(row => ({
+    location: row.location,
+    reports: Number(row.reports),
+    compared: Number(row.compared),
+    score: {
+      bias: round(row.score_bias),
+      mae: round(row.score_mae),
+      rmse: round(row.score_rmse),
+      within_10_pct: round(row.score_within_10_pct),
+    },
+    wave_height_ft: { bias: round(row.wave_bias), mae: round(row.wave_mae), rmse: round(row.wave_rmse) },
+    wind_speed_kts: { bias: round(row.wind_bias), mae: round(row.wind_mae), rmse: round(row.wind_rmse) },
+    by_predicted_rating: bands
+      .filter(band => band.location === row.location)
+      .map(band => ({
+        rating: band.rating,
+        reports: Number(band.reports),
+        avg_predicted_score: round(band.avg_predicted_score)!,
+        avg_observed_score: round(band.avg_observed_score),
+      })),
+  }));
+}
+
+export async function saveReportFeedback(reportId: string, helpful: boolean): Promise<void> {
+  await ensureInitialized();
+  await sql`INSERT INTO report_feedback (report_id, helpful) VALUES (${reportId}, ${helpful})`;
+}
+
+export async function reportExists(reportId: string): Promise<boolean> {
+  await ensureInitialized();
+  const rows = await sql`SELECT 1 FROM surf_reports WHERE id = ${reportId} LIMIT 1`;
+  return rows.length > 0;
+}
+
+// Only what the prompt shapes: the text's length and how readers rated it. Forecast
+// accuracy grades the computed conditions and score, which are the same whichever
+// version writes the report, so it isn't broken out here.
+export interface PromptVersionStats {
+  prompt_version: string;
+  reports: number;
+  candidate_reports: number;
+  avg_word_count: number | null;
+  feedback: { helpful: number; not_helpful: number; helpful_pct: number | null };
+}
+
+export async function getPromptVersionStats(since: string, location?: string): Promise<PromptVersionStats[]> {
+  await ensureInitialized();
+  const rows = await sql`
+    WITH fb AS (
+      SELECT report_id,
+             COUNT(*) FILTER (WHERE helpful) AS helpful,
+             COUNT(*) FILTER (WHERE NOT helpful) AS not_helpful
+      FROM report_feedback
+      GROUP BY report_id
+    )
+    SELECT r.prompt_version,
+           COUNT(*) AS reports,
+           COUNT(*) FILTER (WHERE r.generation_meta->>'prompt_arm' = 'candidate') AS candidate_reports,
+           AVG((r.generation_meta->>'word_count')::numeric) AS avg_word_count,
+           COALESCE(SUM(fb.helpful), 0) AS helpful,
+           COALESCE(SUM(fb.not_helpful), 0) AS not_helpful
+    FROM surf_reports r
+    LEFT JOIN fb ON fb.report_id = r.id
+    WHERE r.prompt_version IS NOT NULL
+      AND r.timestamp >= ${since}
+      AND (${location ?? null}::text IS NULL OR r.location = ${location ?? null})
+    GROUP BY r.prompt_version
+    ORDER BY r.prompt_version
+  `;
+
+  const round = (value: unknown) => value === null ? null : Math.round(Number(value) * 10) / 10;
+
+  return rows.map(row => {
+    const helpful = Number(row.helpful);
+    const notHelpful = Number(row.not_helpful);
+    return {
+      prompt_version: row.prompt_version,
+      reports: Number(row.reports),
+      candidate_reports: Number(row.candidate_reports),
+      avg_word_count: round(row.avg_word_count),
+      feedback: {
+        helpful,
+        not_helpful: notHelpful,
+        helpful_pct: helpful + notHelpful > 0 ? round((100 * helpful) / (helpful + notHelpful)) : null,
+      },
+    };
+  });
+}
+
+// True when this holder now owns the location's lease
+export async function acquireGenerationLease(location: string, holder: string, leaseSeconds: number): Promise<boolean> {
+  await ensureInitialized();
+  const rows = await sql`
+    INSERT INTO report_generation_leases (location, holder, acquired_at, expires_at)
+    VALUES (${location}, ${holder}, NOW(), NOW() + ${leaseSeconds} * INTERVAL '1 second')
+    ON CONFLICT (location) DO UPDATE SET
+      holder = EXCLUDED.holder,
+      acquired_at = EXCLUDED.acquired_at,
+      expires_at = EXCLUDED.expires_at
+    WHERE report_generation_leases.expires_at <= NOW()
+    RETURNING holder
+  `;
+  return rows.length > 0;
+}
+
+export async function releaseGenerationLease(location: string, holder: string): Promise<void> {
+  await ensureInitialized();
+  await sql`DELETE FROM report_generation_leases WHERE location = ${location} AND holder = ${holder}`;
+}
+
+export type ReportJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'dead';
+
+export interface ReportJob {
+  id: number;
+  idempotency_key: string;
+  location: string;
+  slot: string;
+  status: ReportJobStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+  report_id: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+function toReportJob(row: Record<string, any>): ReportJob {
+  const iso = (value: unknown) => value ? new Date(value as string).toISOString() : null;
+  return {
+    id: Number(row.id),
+    idempotency_key: row.idempotency_key,
+    location: row.location,
+    slot: row.slot,
+    status: row.status,
+    attempts: Number(row.attempts),
+    max_attempts: Number(row.max_attempts),
+    next_attempt_at: iso(row.next_attempt_at)!,
+    locked_until: iso(row.locked_until),
+    last_error: row.last_error,
+    report_id: row.report_id,
+    created_at: iso(row.created_at)!,
+    updated_at: iso(row.updated_at)!,
+    finished_at: iso(row.finished_at),
+  };
+}
+
+// Returns the new job, or null when one with this key already exists
+export async function enqueueReportJob(
+  idempotencyKey: string, location: string, slot: string, maxAttempts: number
+): Promise<ReportJob | null> {
+  await ensureInitialized();
+  const rows = await sql`
+    INSERT INTO report_jobs (idempotency_key, location, slot, max_attempts)
+    VALUES (${idempotencyKey}, ${location}, ${slot}, ${maxAttempts})
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING *
+  `;
+  return rows.length > 0 ? toReportJob(rows[0]) : null;
+}
+
+// Older slots still waiting on a retry are pointless once a newer slot is queued
+export async function supersedeReportJobs(location: string, slot: string): Promise<number> {
+  await ensureInitialized();
+  const rows = await sql`
+    UPDATE report_jobs SET
+      status = 'dead',
+      last_error = ${`Superseded by ${slot}`},
+      updated_at = NOW(),
+      finished_at = NOW()
+    WHERE location = ${location}
+      AND slot < ${slot}
+      AND status IN ('queued', 'failed')
+    RETURNING id
+  `;
+  return rows.length;
+}
+
+// Claims the next job that's due, or one whose runner's lease lapsed. SKIP LOCKED keeps
+// concurrent claimers (parallel workers, overlapping cron runs) off the same row.
+export async function claimNextReportJob(leaseSeconds: number, id?: number): Promise<ReportJob | null> {
+  await ensureInitialized();
+  const rows = await sql`
+    UPDATE report_jobs SET
+      status = 'running',
+      attempts = attempts + 1,
+      locked_until = NOW() + ${leaseSeconds} * INTERVAL '1 second',
+      updated_at = NOW()
+    WHERE id = (
+      SELECT id FROM report_jobs
+      WHERE (${id ?? null}::int IS NULL OR id = ${id ?? null})
+        AND (
+          (status IN ('queued', 'failed') AND next_attempt_at <= NOW())
+          OR (status = 'running' AND locked_until < NOW())
+        )
+      ORDER BY next_attempt_at ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return rows.length > 0 ? toReportJob(rows[0]) : null;
+}
+
+export async function completeReportJob(id: number, reportId: string | null): Promise<void> {
+  await ensureInitialized();
+  await sql`
+    UPDATE report_jobs SET
+      status = 'succeeded',
+      report_id = COALESCE(${reportId}, report_id),
+      locked_until = NULL,
+      last_error = NULL,
+      updated_at = NOW(),
+      finished_at = NOW()
+    WHERE id = ${id}
+  `;
+}
+
+// Called by save-report, so a job whose runner lost the Bun response still completes
+export async function completeReportJobByKey(idempotencyKey: string, reportId: string): Promise<boolean> {
+  await ensureInitialized();
+  const rows = await sql`
+    UPDATE report_jobs SET
+      status = 'succeeded',
+      report_id = ${reportId},
+      locked_until = NULL,
+      last_error = NULL,
+      updated_at = NOW(),
+      finished_at = NOW()
+    WHERE idempotency_key = ${idempotencyKey} AND status <> 'succeeded'
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+// Failed jobs retry at retryAt; past max_attempts they go dead. A job that succeeded
+// meanwhile (via completeReportJobByKey) is left alone.
+export async function failReportJob(id: number, error: string, retryAt: Date): Promise<ReportJob | null> {
+  await ensureInitialized();
+  const rows = await sql`
+    UPDATE report_jobs SET
+      status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'failed' END,
+      next_attempt_at = ${retryAt.toISOString()},
+      locked_until = NULL,
+      last_error = ${error},
+      updated_at = NOW(),
+      finished_at = CASE WHEN attempts >= max_attempts THEN NOW() ELSE NULL END
+    WHERE id = ${id} AND status = 'running'
+    RETURNING *
+  `;
+  return rows.length > 0 ? toReportJob(rows[0]) : null;
+}
+
+// Puts a failed or dead job back in the queue with a fresh set of attempts
+export async function requeueReportJob(id: number): Promise<ReportJob | null> {
+  await ensureInitialized();
+  const rows = await sql`
+    UPDATE report_jobs SET
+      status = 'queued',
+      attempts = 0,
+      next_attempt_at = NOW(),
+      locked_until = NULL,
+      updated_at = NOW(),
+      finished_at = NULL
+    WHERE id = ${id} AND status IN ('failed', 'dead')
+    RETURNING *
+  `;
+  return rows.length > 0 ? toReportJob(rows[0]) : null;
+}
+
+export async function getReportJob(id: number): Promise<ReportJob | null> {
+  await ensureInitialized();
+  const rows = await sql`SELECT * FROM report_jobs WHERE id = ${id}`;
+  return rows.length > 0 ? toReportJob(rows[0]) : null;
+}
+
+export async function listReportJobs(
+  { status, location, limit }: { status?: ReportJobStatus; location?: string; limit: number }
+): Promise<ReportJob[]> {
+  await ensureInitialized();
+  const rows = await sql`
+    SELECT * FROM report_jobs
+    WHERE (${status ?? null}::text IS NULL OR status = ${status ?? null})
+      AND (${location ?? null}::text IS NULL OR location = ${location ?? null})
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(toReportJob);
+}
+
+export async function getReportJobCounts(): Promise<Record<ReportJobStatus, number>> {
+  await ensureInitialized();
+  const rows = await sql`SELECT status, COUNT(*)::int AS count FROM report_jobs GROUP BY status`;
+  const counts: Record<ReportJobStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0, dead: 0 };
+  for (const row of rows) counts[row.status as ReportJobStatus] = Number(row.count);
+  return counts;
+}
+
+// Succeeded jobs only matter as a record that their slot is done; dead ones are kept
+// for inspection until they're equally old
+export async function cleanupReportJobs(retentionDays: number): Promise<number> {
+  await ensureInitialized();
+  const rows = await sql`
+    DELETE FROM report_jobs
+    WHERE status IN ('succeeded', 'dead')
+      AND created_at < NOW() - ${retentionDays} * INTERVAL '1 day'
+    RETURNING id
+  `;
+  return rows.length;
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { recordForecastAccuracy } from './forecast-accuracy';
+import { SEED_LOCATIONS } from './locations';
+import type { SurfReport } from '../types/surf-report';
+
+const { getReportsAwaitingAccuracy, saveForecastAccuracy, getHourlyConditions } = vi.hoisted(() => ({
+  getReportsAwaitingAccuracy: vi.fn(),
+  saveForecastAccuracy: vi.fn(),
+  getHourlyConditions: vi.fn(),
+}));
+vi.mock('./db', () => ({ getReportsAwaitingAccuracy, saveForecastAccuracy }));
+vi.mock('./forecast', () => ({ getHourlyConditions }));
+
+const NOW = new Date('2025-10-18T13:00:00Z');
+
+function pendingReport(location: string): SurfReport {
+  return {
+    id: `report-${location}`,
+    location,
+    timestamp: '2025-10-18T05:00:00Z',
+    cached_until: '2025-10-18T09:00:00Z',
+    conditions: { wave_height_ft: 3, wind_speed_kts: 8, surfability_score: 60 },
+  } as unknown as SurfReport;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  getReportsAwaitingAccuracy.mockReset();
+  saveForecastAccuracy.mockReset().mockResolvedValue(undefined);
+  getHourlyConditions.mockReset().mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('recordForecastAccuracy', () => {
+  it('starts no hindcast fetch past the deadline and reports those locations as skipped', async () => {
+    const [first, second, third] = SEED_LOCATIONS;
+    getReportsAwaitingAccuracy.mockResolvedValue([first, second, third].map(l => pendingReport(l!.slug)));
+    // The first fetch runs the clock past the deadline
+    getHourlyConditions.mockImplementationOnce(async () => {
+      vi.setSystemTime(NOW.getTime() + 5000);
+      return [];
+    });
+
+    const result = await recordForecastAccuracy([first!, second!, third!], NOW.getTime() + 1000);
+
+    expect(getHourlyConditions).toHaveBeenCalledTimes(1);
+    expect(result.evaluated).toBe(1);
+    expect(result.skipped_locations).toEqual([second!.slug, third!.slug]);
+  });
+
+  it('scores every location when no deadline is given', async () => {
+    getReportsAwaitingAccuracy.mockResolvedValue(SEED_LOCATIONS.map(l => pendingReport(l.slug)));
+
+    const result = await recordForecastAccuracy(SEED_LOCATIONS);
+
+    expect(result.evaluated).toBe(SEED_LOCATIONS.length);
+    expect(result.skipped_locations).toEqual([]);
+  });
+
+  it('only asks for pending reports of the locations it was given', async () => {
+    getReportsAwaitingAccuracy.mockResolvedValue([]);
+
+    await recordForecastAccuracy(SEED_LOCATIONS.slice(0, 2));
+
+    expect(getReportsAwaitingAccuracy.mock.calls[0]![0]).toEqual(SEED_LOCATIONS.slice(0, 2).map(l => l.slug));
+  });
+});
@@ -0,0 +1,144 @@
+import type { Location } from './locations';
+import { getHourlyConditions, type ForecastHour } from './forecast';
+import type { ForecastAccuracyRecord } from './db';
+import type { SurfReport } from '../types/surf-report';
+
+// Open-Meteo's hindcast for recent hours keeps settling for a while after the fact
+export const ACCURACY_SETTLE_HOURS = 2;
+
+// Reports older than this are skipped rather than backfilled
+export const ACCURACY_LOOKBACK_DAYS = 14;
+
+export const ACCURACY_BATCH_SIZE = 50;
+
+// A report is judged against the hours it was served for, capped in case cached_until is unusually long
+const MAX_WINDOW_HOURS = 12;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function reportWindow(report: SurfReport): { start: number; end: number } {
+  const start = new Date(report.timestamp).getTime();
+  const end = Math.min(new Date(report.cached_until).getTime(), start + MAX_WINDOW_HOURS * HOUR_MS);
+  return { start, end };
+}
+
+// The report's conditions stand in for a forecast of its whole window; the hindcast hours
+// inside that window are what actually happened
+export function scoreReportAccuracy(report: SurfReport, hours: ForecastHour[]): ForecastAccuracyRecord {
+  const { start, end } = reportWindow(report);
+  const observed = hours.filter(h => {
+    const t = new Date(h.time).getTime();
+    // Hours are stamped at their start, so include the hour the report landed in
+    return t + HOUR_MS > start && t < end;
+  });
+
+  const predicted = {
+    predicted_wave_height_ft: report.conditions.wave_height_ft,
+    predicted_wind_speed_kts: report.conditions.wind_speed_kts,
+    predicted_score: report.conditions.surfability_score,
+  };
+  const base = {
+    report_id: report.id,
+    location: report.location,
+    report_timestamp: new Date(start).toISOString(),
+    window_end: new Date(end).toISOString(),
+    samples: observed.length,
+    ...predicted,
+  };
+
+  if (observed.length === 0) {
+    return {
+      ...base,
+      observed_wave_height_ft: null,
+      observed_wind_speed_kts: null,
+      observed_score: null,
+      observed_peak_score: null,
+      observed_peak_at: null,
+      wave_height_error_ft: null,
+      wind_speed_error_kts: null,
+      score_error: null,
+    };
+  }
+
+  const waveHeight = round(average(observed.map(h => h.wave_height_ft)));
+  const windSpeed = round(average(observed.map(h => h.wind_speed_kts)));
+  const score = round(average(observed.map(h => h.score)));
+  const peak = observed.reduce((best, h) => (h.score > best.score ? h : best));
+
+  return {
+    ...base,
+    observed_wave_height_ft: waveHeight,
+    observed_wind_speed_kts: windSpeed,
+    observed_score: score,
+    observed_peak_score: peak.score,
+    observed_peak_at: peak.time,
+    wave_height_error_ft: round(waveHeight - predicted.predicted_wave_height_ft),
+    wind_speed_error_kts: round(windSpeed - predicted.predicted_wind_speed_kts),
+    score_error: round(score - predicted.predicted_score),
+  };
+}
+
+export interface AccuracyRunResult {
+  evaluated: number;
+  without_observations: number;
+  errors: Array<{ location: string; error: string }>;
+  // Locations with pending reports that weren't reached before the deadline
+  skipped_locations: string[];
+}
+
+// Scores every settled report not yet in forecast_accuracy. One hindcast fetch per location
+// covers all of its pending reports, none started after `deadline` (epoch ms); a failed or
+// skipped fetch leaves them pending for the next run.
+export async function recordForecastAccuracy(locations: Location[], deadline = Infinity): Promise<AccuracyRunResult> {
+  const { getReportsAwaitingAccuracy, saveForecastAccuracy } = await import('./db');
+
+  const now = Date.now();
+  const pending = await getReportsAwaitingAccuracy(
+    locations.map(l => l.slug),
+    new Date(now - ACCURACY_SETTLE_HOURS * HOUR_MS).toISOString(),
+    new Date(now - ACCURACY_LOOKBACK_DAYS * DAY_MS).toISOString(),
+    ACCURACY_BATCH_SIZE
+  );
+
+  const result: AccuracyRunResult = { evaluated: 0, without_observations: 0, errors: [], skipped_locations: [] };
+
+  for (const location of locations) {
+    const reports = pending.filter(r => r.location === location.slug);
+    if (reports.length === 0) continue;
+
+    if (Date.now() >= deadline) {
+      result.skipped_locations.push(location.slug);
+      continue;
+    }
+
+    const windows = reports.map(reportWindow);
+    const start = new Date(Math.floor(Math.min(...windows.map(w => w.start)) / HOUR_MS) * HOUR_MS);
+    const end = new Date(Math.max(...windows.map(w => w.end)));
+
+    let hours: ForecastHour[];
+    try {
+      hours = await getHourlyConditions(location, start, end);
+    } catch (error) {
+      result.errors.push({ location: location.slug, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    for (const report of reports) {
+      const record = scoreReportAccuracy(report, hours);
+      await saveForecastAccuracy(record);
+      result.evaluated++;
+      if (record.samples === 0) result.without_observations++;
+    }
+  }
+
+  return result;
+}
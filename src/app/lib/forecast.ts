@@ -0,0 +1,146 @@
+import type { Location } from './locations';
+import { calculateSurfability, degreesToCompass, formatWaveComponents, getWindDescription, type ScoreBreakdown } from './surfability';
+import type { SwellComponents } from '../types/surf-report';
+import { isDaylight } from './daylight';
+import {
+  fetchMarineJson,
+  fetchWeatherJson,
+  parseOpenMeteoGmt,
+  readWaveComponents,
+  KMH_TO_KNOTS,
+  MARINE_PARTITION_VARIABLES,
+  METERS_TO_FEET,
+} from './open-meteo';
+import { calculateTideState, fetchTidePredictions, findSurroundingTideEvents } from './tides';
+
+export const MAX_FORECAST_DAYS = 7;
+
+export interface ForecastHour {
+  time: string;
+  wave_height_ft: number;
+  wave_period_sec: number;
+  swell_direction_deg: number;
+  swell_direction_compass: string;
+  swell_components: SwellComponents;
+  wind_speed_kts: number;
+  wind_direction_deg: number;
+  wind_direction_compass: string;
+  wind_direction_description: string;
+  tide_height_ft: number;
+  tide_state: string;
+  score: number;
+  score_breakdown: ScoreBreakdown;
+  rating: string;
+  daylight: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function isValidNumber(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+// Builds one entry per hour from the start of the current hour for `days` days.
+export async function getHourlyForecast(location: Location, days: number): Promise<ForecastHour[]> {
+  const start = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS);
+  return getHourlyConditions(location, start, new Date(start.getTime() + days * DAY_MS));
+}
+
+function gmtDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// One entry per hour in [start, end). Works for past hours too, where Open-Meteo
+// serves its hindcast and NOAA its predictions, which is what accuracy tracking compares against.
+// Every upstream is requested in GMT so the three sources can be joined on timestamp.
+export async function getHourlyConditions(location: Location, start: Date, end: Date): Promise<ForecastHour[]> {
+  // Open-Meteo ranges are whole GMT days, inclusive
+  const range = `timezone=GMT&start_date=${gmtDate(start)}&end_date=${gmtDate(new Date(end.getTime() - 1))}`;
+
+  const [marineData, weatherData, hourlyTides, hiloTides] = await Promise.all([
+    fetchMarineJson(
+      `latitude=${location.lat}&longitude=${location.lon}&hourly=wave_height,wave_period,${MARINE_PARTITION_VARIABLES}&${range}`
+    ),
+    fetchWeatherJson(
+      `latitude=${location.lat}&longitude=${location.lon}&hourly=wind_speed_10m,wind_direction_10m&${range}`
+    ),
+    fetchTidePredictions(location.noaaStationId, start, new Date(end.getTime() + DAY_MS), 'h'),
+    fetchTidePredictions(location.noaaStationId, new Date(start.getTime() - DAY_MS), new Date(end.getTime() + DAY_MS), 'hilo'),
+  ]);
+
+  if (!marineData?.hourly?.time) throw new Error('No marine data available');
+  if (!weatherData?.hourly?.time) throw new Error('No weather data available');
+
+  const windByTime = new Map<number, { speed: number; direction: number }>();
+  weatherData.hourly.time.forEach((t: string, i: number) => {
+    windByTime.set(parseOpenMeteoGmt(t).getTime(), {
+      speed: weatherData.hourly.wind_speed_10m?.[i],
+      direction: weatherData.hourly.wind_direction_10m?.[i],
+    });
+  });
+
+  const tideByTime = new Map<number, number>();
+  for (const p of hourlyTides) {
+    tideByTime.set(new Date(p.t).getTime(), parseFloat(p.v));
+  }
+
+  const hours: ForecastHour[] = [];
+
+  marineData.hourly.time.forEach((t: string, i: number) => {
+    const at = parseOpenMeteoGmt(t);
+    if (at < start || at >= end) return;
+
+    const waveHeightM = marineData.hourly.wave_height?.[i];
+    const wavePeriod = marineData.hourly.wave_period?.[i];
+    const swellDirection = marineData.hourly.swell_wave_direction?.[i];
+    const wind = windByTime.get(at.getTime());
+    const tideHeight = tideByTime.get(at.getTime());
+
+    // Skip hours where any source has a gap rather than scoring on partial data
+    if (!isValidNumber(waveHeightM) || !isValidNumber(wavePeriod) || !isValidNumber(swellDirection)) return;
+    if (!wind || !isValidNumber(wind.speed) || !isValidNumber(wind.direction)) return;
+    if (!isValidNumber(tideHeight)) return;
+
+    const { nextHigh, nextLow, previousHigh, previousLow } = findSurroundingTideEvents(hiloTides, at);
+    const tideState = calculateTideState(tideHeight, nextHigh, nextLow, previousHigh, previousLow, at);
+
+    const waveHeight = waveHeightM * METERS_TO_FEET;
+    const components = readWaveComponents(marineData.hourly, i);
+    const windSpeed = wind.speed * KMH_TO_KNOTS;
+
+    const { score, rating, breakdown } = calculateSurfability({
+      waveHeight,
+      wavePeriod,
+      swellDirection,
+      windDirection: wind.direction,
+      windSpeed,
+      tide: tideState,
+      tideHeight,
+      components,
+    }, location.coastFacingDeg);
+
+    hours.push({
+      time: at.toISOString(),
+      wave_height_ft: Math.round(waveHeight * 10) / 10,
+      wave_period_sec: Math.round(wavePeriod * 10) / 10,
+      swell_direction_deg: Math.round(swellDirection),
+      swell_direction_compass: degreesToCompass(swellDirection),
+      swell_components: formatWaveComponents(components, location.coastFacingDeg),
+      wind_speed_kts: Math.round(windSpeed * 10) / 10,
+      wind_direction_deg: Math.round(wind.direction),
+      wind_direction_compass: degreesToCompass(wind.direction),
+      wind_direction_description: getWindDescription(wind.direction, windSpeed, location.coastFacingDeg),
+      tide_height_ft: Math.round(tideHeight * 10) / 10,
+      tide_state: tideState,
+      score,
+      score_breakdown: breakdown,
+      rating,
+      daylight: isDaylight(location.lat, location.lon, at),
+    });
+  });
+
+  if (hours.length === 0) throw new Error('Forecast sources returned no overlapping hours');
+
+  return hours;
+}
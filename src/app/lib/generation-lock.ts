@@ -0,0 +1,113 @@
+import type { SurfReport } from '../types/surf-report';
+import { MAX_CACHED_REPORT_AGE_HOURS } from './report-generation';
+
+// Single-flight report generation per location. The first request to miss the cache
+// takes a lease row and generates; the rest serve the stale report if there is one,
+// or wait for the holder's report to land.
+
+// Longer than the slowest generation (15s surf data + 45s streamed AI call), so a
+// lease only expires early when its holder has died
+export const GENERATION_LEASE_SECONDS = 90;
+export const GENERATION_WAIT_MS = 25000;
+const GENERATION_POLL_MS = 1000;
+
+export type GenerationSlot =
+  | { status: 'acquired'; release: () => Promise<void> }
+  // Another request is generating; serve this older report meanwhile
+  | { status: 'stale'; report: SurfReport }
+  // Waited for another request's generation and got its report
+  | { status: 'ready'; report: SurfReport }
+  // Still generating elsewhere after GENERATION_WAIT_MS
+  | { status: 'timeout' };
+
+export interface GenerationLockStats {
+  location: string;
+  generations: number;
+  coalesced_stale: number;
+  coalesced_waited: number;
+  lock_timeouts: number;
+  lock_errors: number;
+  total_wait_ms: number;
+}
+
+// Per-instance counters, reset on cold start like provider health
+const stats = new Map<string, GenerationLockStats>();
+
+function getStats(location: string): GenerationLockStats {
+  let entry = stats.get(location);
+  if (!entry) {
+    entry = { location, generations: 0, coalesced_stale: 0, coalesced_waited: 0, lock_timeouts: 0, lock_errors: 0, total_wait_ms: 0 };
+    stats.set(location, entry);
+  }
+  return entry;
+}
+
+export function getGenerationLockStats(): GenerationLockStats[] {
+  return Array.from(stats.values()).map(entry => ({ ...entry }));
+}
+
+function isUsable(report: SurfReport): boolean {
+  return Date.now() - new Date(report.timestamp).getTime() < MAX_CACHED_REPORT_AGE_HOURS * 60 * 60 * 1000;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Call on a cache miss, with whatever (too old) report the cache did have
+export async function claimGeneration(location: string, staleReport: SurfReport | null): Promise<GenerationSlot> {
+  const { acquireGenerationLease, getCachedReport, releaseGenerationLease } = await import('./db');
+  const entry = getStats(location);
+  const holder = `${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+
+  const acquired = (): GenerationSlot => {
+    entry.generations++;
+    return {
+      status: 'acquired',
+      release: () => releaseGenerationLease(location, holder).catch(error => {
+        console.warn(`⚠️ Failed to release generation lease for ${location}:`, error);
+      }),
+    };
+  };
+
+  const tryAcquire = async (): Promise<boolean> => {
+    try {
+      return await acquireGenerationLease(location, holder, GENERATION_LEASE_SECONDS);
+    } catch (error) {
+      // The lease only prevents duplicate work, so don't let it block generation
+      console.warn(`⚠️ Generation lease unavailable for ${location}, generating without it:`, error);
+      entry.lock_errors++;
+      return true;
+    }
+  };
+
+  if (await tryAcquire()) return acquired();
+
+  if (staleReport) {
+    console.log(`🔒 ${location} is already generating, serving the stale report`);
+    entry.coalesced_stale++;
+    return { status: 'stale', report: staleReport };
+  }
+
+  console.log(`🔒 ${location} is already generating, waiting for it`);
+  const waitStart = Date.now();
+  try {
+    while (Date.now() - waitStart < GENERATION_WAIT_MS) {
+      await sleep(GENERATION_POLL_MS);
+
+      const report = await getCachedReport(location);
+      if (report && isUsable(report)) {
+        entry.coalesced_waited++;
+        return { status: 'ready', report };
+      }
+
+      // The holder finished without a report, or its lease expired
+      if (await tryAcquire()) return acquired();
+    }
+
+    entry.lock_timeouts++;
+    return { status: 'timeout' };
+  } finally {
+    entry.total_wait_ms += Date.now() - waitStart;
+  }
+}
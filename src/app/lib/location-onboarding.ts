@@ -0,0 +1,153 @@
+import type { Location } from './locations';
+import { fetchMarineJson } from './open-meteo';
+import catalogue from './data/noaa-tide-stations.json';
+
+export interface TideStation {
+  id: string;
+  name: string;
+  state: string;
+  lat: number;
+  lon: number;
+  timezone: string;
+}
+
+export interface NearbyStation extends TideStation {
+  distanceKm: number;
+}
+
+export interface CoastOrientationEstimate {
+  coastFacingDeg: number | null;
+  // 0–1: how tightly the sea-side probe points cluster around one bearing
+  confidence: number;
+  seaBearings: number[];
+}
+
+// Everything except coastFacingDeg has a sensible default; that one stays null
+// when the probe can't tell land from sea, so the admin has to fill it in
+export type LocationDraft = Omit<Location, 'coastFacingDeg'> & { coastFacingDeg: number | null };
+
+export interface LocationDraftResult {
+  draft: LocationDraft;
+  station: NearbyStation;
+  alternativeStations: NearbyStation[];
+  coastOrientation: CoastOrientationEstimate;
+  warnings: string[];
+}
+
+const STATIONS: TideStation[] = catalogue.stations;
+
+const EARTH_RADIUS_KM = 6371;
+const PROBE_RADIUS_KM = 15;
+const PROBE_BEARINGS = Array.from({ length: 24 }, (_, i) => i * 15);
+
+// Predictions from a station much further away than this drift noticeably in timing
+const STATION_WARNING_KM = 50;
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+function destinationPoint(lat: number, lon: number, bearingDeg: number, km: number): { lat: number; lon: number } {
+  const d = km / EARTH_RADIUS_KM;
+  const b = toRad(bearingDeg);
+  const lat1 = toRad(lat);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(b));
+  const lon2 = toRad(lon) + Math.atan2(Math.sin(b) * Math.sin(d) * Math.cos(lat1), Math.cos(d) - Math.sin(lat1) * Math.sin(lat2));
+  return { lat: toDeg(lat2), lon: ((toDeg(lon2) + 540) % 360) - 180 };
+}
+
+export function findNearestStations(lat: number, lon: number, count = 4): NearbyStation[] {
+  return STATIONS
+    .map(station => ({ ...station, distanceKm: Math.round(distanceKm(lat, lon, station.lat, station.lon) * 10) / 10 }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, count);
+}
+
+// The marine model only has values over water, so probe a ring of points around
+// the spot in one multi-coordinate request and average the bearings that hit sea.
+export async function estimateCoastFacing(lat: number, lon: number): Promise<CoastOrientationEstimate> {
+  const points = PROBE_BEARINGS.map(bearing => destinationPoint(lat, lon, bearing, PROBE_RADIUS_KM));
+  const latitudes = points.map(p => p.lat.toFixed(4)).join(',');
+  const longitudes = points.map(p => p.lon.toFixed(4)).join(',');
+
+  const response = await fetchMarineJson(`latitude=${latitudes}&longitude=${longitudes}&hourly=wave_height&forecast_days=1`);
+  const results: any[] = Array.isArray(response) ? response : [response];
+
+  const seaBearings = PROBE_BEARINGS.filter((_, i) =>
+    (results[i]?.hourly?.wave_height ?? []).some((v: unknown) => typeof v === 'number')
+  );
+
+  // All land or all sea means the spot isn't on an open coast at this radius
+  if (seaBearings.length === 0 || seaBearings.length === PROBE_BEARINGS.length) {
+    return { coastFacingDeg: null, confidence: 0, seaBearings };
+  }
+
+  const x = seaBearings.reduce((sum, b) => sum + Math.sin(toRad(b)), 0) / seaBearings.length;
+  const y = seaBearings.reduce((sum, b) => sum + Math.cos(toRad(b)), 0) / seaBearings.length;
+
+  return {
+    coastFacingDeg: Math.round((toDeg(Math.atan2(x, y)) + 360) % 360),
+    confidence: Math.round(Math.sqrt(x * x + y * y) * 100) / 100,
+    seaBearings,
+  };
+}
+
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/,.*$/, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+// A starting point for the admin to review before POSTing to /api/admin/locations
+export async function draftLocation({ lat, lon, name }: { lat: number; lon: number; name?: string }): Promise<LocationDraftResult> {
+  const warnings: string[] = [];
+  const [station, ...alternativeStations] = findNearestStations(lat, lon);
+
+  if (station.distanceKm > STATION_WARNING_KM) {
+    warnings.push(`Nearest tide station (${station.name}) is ${station.distanceKm} km away — tide timing may be off`);
+  }
+
+  let coastOrientation: CoastOrientationEstimate = { coastFacingDeg: null, confidence: 0, seaBearings: [] };
+  try {
+    coastOrientation = await estimateCoastFacing(lat, lon);
+  } catch (error) {
+    warnings.push(`Coast orientation probe failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+
+  if (coastOrientation.coastFacingDeg === null) {
+    warnings.push('Could not estimate coast orientation — set coastFacingDeg by hand');
+  } else if (coastOrientation.confidence < 0.5) {
+    warnings.push('Coast orientation is a low-confidence estimate (headland, bay or island) — check it against a map');
+  }
+
+  const draftName = name?.trim() || `${station.name}, ${station.state}`;
+
+  return {
+    draft: {
+      slug: slugify(draftName),
+      name: draftName,
+      lat,
+      lon,
+      noaaStationId: station.id,
+      // US coastal stations sit in the same zone as the beaches they serve
+      timezone: station.timezone,
+      coastFacingDeg: coastOrientation.coastFacingDeg,
+      bestSpots: [],
+      localKnowledge: '',
+      voiceDescriptor: 'experienced surf forecaster',
+    },
+    station,
+    alternativeStations,
+    coastOrientation,
+    warnings,
+  };
+}
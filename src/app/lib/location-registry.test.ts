@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearLocationCache, getLocation, listLocations } from './location-registry';
+import { SEED_LOCATIONS } from './locations';
+import type { LocationRow } from './db';
+
+const getLocationRows = vi.fn<() => Promise<LocationRow[]>>();
+vi.mock('./db', () => ({ getLocationRows }));
+
+function row(slug: string, enabled = true): LocationRow {
+  const seed = SEED_LOCATIONS.find(l => l.slug === slug) ?? { ...SEED_LOCATIONS[0], slug, name: slug };
+  return { ...seed, enabled, createdAt: '2025-10-18T00:00:00.000Z', updatedAt: '2025-10-18T00:00:00.000Z' };
+}
+
+beforeEach(() => {
+  clearLocationCache();
+  getLocationRows.mockReset();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2025-10-18T13:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('listLocations', () => {
+  it('uses the built-in locations when no database is configured', async () => {
+    vi.stubEnv('NEON_DATABASE_URL', '');
+    vi.stubEnv('DATABASE_URL', '');
+
+    expect(await listLocations()).toBe(SEED_LOCATIONS);
+    expect(getLocationRows).not.toHaveBeenCalled();
+  });
+
+  describe('with a database', () => {
+    beforeEach(() => {
+      vi.stubEnv('NEON_DATABASE_URL', 'postgres://test');
+    });
+
+    it('returns enabled rows and caches them for a minute', async () => {
+      getLocationRows.mockResolvedValue([row('st-augustine'), row('boca-raton', false), row('new-spot')]);
+
+      expect((await listLocations()).map(l => l.slug)).toEqual(['st-augustine', 'new-spot']);
+      vi.setSystemTime(new Date('2025-10-18T13:00:59Z'));
+      await listLocations();
+      expect(getLocationRows).toHaveBeenCalledTimes(1);
+
+      vi.setSystemTime(new Date('2025-10-18T13:01:01Z'));
+      await listLocations();
+      expect(getLocationRows).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps serving the last loaded list when a refresh fails, and retries on the next call', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      getLocationRows.mockResolvedValueOnce([row('st-augustine'), row('boca-raton', false), row('new-spot')]);
+      await listLocations();
+
+      vi.setSystemTime(new Date('2025-10-18T13:02:00Z'));
+      getLocationRows.mockRejectedValueOnce(new Error('connection refused'));
+      expect((await listLocations()).map(l => l.slug)).toEqual(['st-augustine', 'new-spot']);
+      expect(await getLocation('boca-raton')).toBeUndefined();
+
+      getLocationRows.mockResolvedValueOnce([row('st-augustine')]);
+      expect((await listLocations()).map(l => l.slug)).toEqual(['st-augustine']);
+    });
+
+    it('throws rather than falling back to the built-in list when nothing has loaded yet', async () => {
+      getLocationRows.mockRejectedValue(new Error('connection refused'));
+
+      await expect(listLocations()).rejects.toThrow('connection refused');
+      await expect(listLocations()).rejects.toThrow('connection refused');
+      expect(getLocationRows).toHaveBeenCalledTimes(2);
+    });
+  });
+});
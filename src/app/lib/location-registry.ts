@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { SEED_LOCATIONS, type Location, type LocationSummary } from './locations';
+import type { LocationRow } from './db';
+
+export type { LocationRow };
+
+const slugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+const locationFields = {
+  name: z.string().trim().min(1).max(80),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  noaaStationId: z.string().regex(/^\d{7}$/, 'NOAA station IDs are seven digits'),
+  timezone: z.string().refine(isValidTimezone, 'Must be an IANA timezone, e.g. America/New_York'),
+  coastFacingDeg: z.number().min(0).lt(360),
+  bestSpots: z.array(z.string().trim().min(1)).max(10),
+  localKnowledge: z.string().trim().max(4000),
+  voiceDescriptor: z.string().trim().max(500),
+  reportHours: z.array(z.number().int().min(0).max(23)).min(1).max(24)
+    .transform(hours => Array.from(new Set(hours)).sort((a, b) => a - b)),
+  freshnessThresholds: z.object({
+    waveHeightFt: z.number().positive().max(20),
+    windSpeedKts: z.number().positive().max(60),
+    windDirectionDeg: z.number().positive().max(180),
+    weather: z.boolean(),
+  }).partial().strict(),
+};
+
+export const locationCreateSchema = z.object({
+  slug: z.string().regex(slugPattern, 'Slug must be lowercase words separated by hyphens').max(60),
+  ...locationFields,
+  bestSpots: locationFields.bestSpots.default([]),
+  localKnowledge: locationFields.localKnowledge.default(''),
+  voiceDescriptor: locationFields.voiceDescriptor.default('experienced surf forecaster'),
+  reportHours: locationFields.reportHours.optional(),
+  freshnessThresholds: locationFields.freshnessThresholds.optional(),
+}).strict();
+
+// Slug is the primary key and appears in URLs and report history, so it can't change
+export const locationUpdateSchema = z.object({
+  ...locationFields,
+  enabled: z.boolean(),
+}).partial().strict();
+
+export type LocationCreateInput = z.infer<typeof locationCreateSchema>;
+export type LocationUpdateInput = z.infer<typeof locationUpdateSchema>;
+
+// Enabled locations are read on nearly every request, so each instance keeps them
+// briefly. Admin writes clear this instance's copy; others catch up within the TTL.
+const CACHE_TTL_MS = 60 * 1000;
+let cached: { locations: Location[]; loadedAt: number } | null = null;
+
+function hasDatabase(): boolean {
+  return Boolean(process.env.NEON_DATABASE_URL || process.env.DATABASE_URL);
+}
+
+function toLocation({ enabled, createdAt, updatedAt, ...location }: LocationRow): Location {
+  return location;
+}
+
+async function loadEnabledLocations(): Promise<Location[]> {
+  const { getLocationRows } = await import('./db');
+  return (await getLocationRows()).filter(row => row.enabled).map(toLocation);
+}
+
+// The built-in list only stands in when there's no database at all. With one, a failed
+// read keeps serving the last list it returned (retrying on the next call), since the
+// seeds would bring back disabled spots and drop admin-created ones; on a cold instance
+// with nothing to fall back on, the error is thrown.
+export async function listLocations(): Promise<Location[]> {
+  if (!hasDatabase()) return SEED_LOCATIONS;
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.locations;
+
+  try {
+    const locations = await loadEnabledLocations();
+    cached = { locations, loadedAt: Date.now() };
+    return locations;
+  } catch (error) {
+    if (!cached) throw error;
+    console.error('❌ Location registry unavailable, serving the last loaded locations:', error);
+    return cached.locations;
+  }
+}
+
+export async function listLocationSummaries(): Promise<LocationSummary[]> {
+  return (await listLocations()).map(({ slug, name }) => ({ slug, name }));
+}
+
+// Disabled and unknown slugs both come back undefined
+export async function getLocation(slug: string): Promise<Location | undefined> {
+  return (await listLocations()).find(loc => loc.slug === slug);
+}
+
+export function clearLocationCache() {
+  cached = null;
+}
+
+// Admin operations always go to the database and include disabled locations
+
+export async function listLocationRows(): Promise<LocationRow[]> {
+  const { getLocationRows } = await import('./db');
+  return getLocationRows();
+}
+
+export async function getLocationRecord(slug: string): Promise<LocationRow | null> {
+  const { getLocationRow } = await import('./db');
+  return getLocationRow(slug);
+}
+
+export async function createLocation(input: LocationCreateInput): Promise<LocationRow> {
+  const { createLocationRow } = await import('./db');
+  const row = await createLocationRow(input);
+  clearLocationCache();
+  return row;
+}
+
+export async function updateLocation(slug: string, input: LocationUpdateInput): Promise<LocationRow | null> {
+  const { getLocationRow, updateLocationRow } = await import('./db');
+  const existing = await getLocationRow(slug);
+  if (!existing) return null;
+
+  const row = await updateLocationRow({ ...toLocation(existing), enabled: existing.enabled, ...input, slug });
+  clearLocationCache();
+  return row;
+}
+
+export async function deleteLocation(slug: string): Promise<boolean> {
+  const { deleteLocationRow } = await import('./db');
+  const deleted = await deleteLocationRow(slug);
+  clearLocationCache();
+  return deleted;
+}
@@ -9,9 +9,28 @@ export interface Location {
   bestSpots: string[];
   localKnowledge: string;
   voiceDescriptor: string;
+  // Local hours (0–23, in `timezone`) the cron generates a report at; DEFAULT_REPORT_HOURS when unset
+  reportHours?: number[];
+  // How far conditions can move before a cached report is regenerated; DEFAULT_FRESHNESS_THRESHOLDS fills gaps
+  freshnessThresholds?: Partial<FreshnessThresholds>;
 }
 
-export const LOCATIONS: Location[] = [
+export interface FreshnessThresholds {
+  waveHeightFt: number;
+  windSpeedKts: number;
+  // Only compared once either reading is strong enough for direction to matter
+  windDirectionDeg: number;
+  // Invalidate when the weather moves between clear, fog, rain and thunderstorm
+  weather: boolean;
+}
+
+// Client-safe list entry for location pickers
+export type LocationSummary = Pick<Location, 'slug' | 'name'>;
+
+// Built-in spots. They seed the locations table on first run and serve as the
+// registry when no database is configured — look locations up through
+// getLocation in location-registry.ts rather than reading this directly.
+export const SEED_LOCATIONS: Location[] = [
   {
     slug: 'st-augustine',
     name: 'St. Augustine, FL',
@@ -98,8 +117,4 @@ export const LOCATIONS: Location[] = [
   },
 ];
 
-export function getLocation(slug: string): Location | undefined {
-  return LOCATIONS.find(loc => loc.slug === slug);
-}
-
 export const DEFAULT_LOCATION_SLUG = 'st-augustine';
@@ -0,0 +1,24 @@
+// Newline-delimited JSON over a fetch body, as used by the streaming report endpoints.
+// Works in the browser and on the server.
+export async function readNdjson<T>(body: ReadableStream<Uint8Array>, onEvent: (event: T) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line) as T);
+    }
+
+    if (done) return;
+  }
+}
+
+export function encodeNdjson(event: unknown): Uint8Array {
+  return new TextEncoder().encode(`${JSON.stringify(event)}\n`);
+}
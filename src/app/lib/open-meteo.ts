@@ -0,0 +1,64 @@
+import type { WaveComponent, WaveComponents } from './surfability';
+
+// Open-Meteo serves marine data from two hosts; try the main API first
+export const MARINE_ENDPOINTS = [
+  'https://api.open-meteo.com/v1/marine',
+  'https://marine-api.open-meteo.com/v1/marine',
+];
+
+const FORECAST_ENDPOINT = 'https://api.open-meteo.com/v1/forecast';
+
+export const KMH_TO_KNOTS = 0.539957;
+export const METERS_TO_FEET = 3.28084;
+
+// Hourly marine variables for the swell / wind-wave partition
+export const MARINE_PARTITION_VARIABLES = [
+  'swell_wave_height', 'swell_wave_period', 'swell_wave_direction',
+  'secondary_swell_wave_height', 'secondary_swell_wave_period', 'secondary_swell_wave_direction',
+  'wind_wave_height', 'wind_wave_period', 'wind_wave_direction',
+].join(',');
+
+export async function fetchMarineJsonFrom(endpoint: string, params: string, timeoutMs = 12000): Promise<any> {
+  const res = await fetch(`${endpoint}?${params}`, { cache: 'no-store', signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) throw new Error(`Marine API returned ${res.status}`);
+  return res.json();
+}
+
+export async function fetchMarineJson(params: string, timeoutMs = 12000): Promise<any> {
+  for (const endpoint of MARINE_ENDPOINTS) {
+    try {
+      return await fetchMarineJsonFrom(endpoint, params, timeoutMs);
+    } catch (_) {}
+  }
+
+  throw new Error('All marine data sources failed - no real ocean data available');
+}
+
+export async function fetchWeatherJson(params: string, timeoutMs = 10000): Promise<any> {
+  const res = await fetch(`${FORECAST_ENDPOINT}?${params}`, { cache: 'no-store', signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) throw new Error(`Weather API returned ${res.status}`);
+  return res.json();
+}
+
+// Hourly timestamps requested with timezone=GMT come back as "YYYY-MM-DDTHH:mm" with no offset
+export function parseOpenMeteoGmt(t: string): Date {
+  return new Date(`${t}Z`);
+}
+
+function readComponent(hourly: any, prefix: string, index: number): WaveComponent | null {
+  const height = hourly[`${prefix}_height`]?.[index];
+  const period = hourly[`${prefix}_period`]?.[index];
+  const direction = hourly[`${prefix}_direction`]?.[index];
+  if ([height, period, direction].some(v => typeof v !== 'number' || isNaN(v))) return null;
+  // A zero-height partition is the model saying "no such component", not a real reading
+  if (height <= 0) return null;
+  return { height: height * METERS_TO_FEET, period, direction };
+}
+
+export function readWaveComponents(hourly: any, index: number): WaveComponents {
+  return {
+    primarySwell: readComponent(hourly, 'swell_wave', index),
+    secondarySwell: readComponent(hourly, 'secondary_swell_wave', index),
+    windWave: readComponent(hourly, 'wind_wave', index),
+  };
+}
@@ -0,0 +1,77 @@
+import type { SurfReport } from '../types/surf-report';
+import type { PersonalVerdict, SkillLevel, UserProfile, WetsuitTolerance } from '../types/user-profile';
+
+const SKILL_RANK: Record<SkillLevel, number> = { beginner: 0, intermediate: 1, advanced: 2 };
+
+// Face heights (ft) each level generally enjoys
+const COMFORT_RANGE_FT: Record<SkillLevel, [number, number]> = {
+  beginner: [1, 3.5],
+  intermediate: [1.5, 6],
+  advanced: [2.5, 20],
+};
+
+// Coldest water (°F) that's comfortable in each suit
+const MIN_WATER_F: Record<WetsuitTolerance, number> = {
+  boardshorts: 72,
+  '3/2': 60,
+  '4/3': 54,
+  '5/4': 0,
+};
+
+const HEADLINES: Record<PersonalVerdict['verdict'], string> = {
+  go: 'Go — today lines up with how you surf',
+  maybe: 'Maybe — worth it if you\'re keen',
+  skip: 'Sit this one out',
+};
+
+// Combines the report's recommended skill level and surfability score with the
+// surfer's own profile. Each mismatch adds a penalty; enough of them turns a
+// decent day into a "maybe" or a "skip" for this particular surfer.
+export function getPersonalVerdict(profile: UserProfile, report: SurfReport): PersonalVerdict {
+  const { surfability_score: score, wave_height_ft: height, water_temperature_f: waterTemp } = report.conditions;
+  const reasons: string[] = [];
+  let penalty = 0;
+
+  const needed = SKILL_RANK[report.recommendations.skill_level];
+  const have = SKILL_RANK[profile.skill_level];
+  if (have < needed) {
+    reasons.push(`Today suits ${report.recommendations.skill_level} surfers and up`);
+    penalty += needed - have + 1;
+  }
+
+  const [minFt, maxFt] = COMFORT_RANGE_FT[profile.skill_level];
+  if (height > maxFt) {
+    reasons.push(`${height}ft is above the ${minFt}–${maxFt}ft range that suits you`);
+    penalty += 2;
+  } else if (height < minFt) {
+    reasons.push(`${height}ft is on the small side for you`);
+    penalty += 1;
+  }
+
+  if (profile.preferred_board === 'shortboard' && height < 2.5) {
+    reasons.push('Small surf — something with more foam than your shortboard will catch more waves');
+    penalty += 1;
+  } else if ((profile.preferred_board === 'longboard' || profile.preferred_board === 'foamie') && height > 6) {
+    reasons.push(`A ${profile.preferred_board} will be a handful in surf this size`);
+    penalty += 1;
+  }
+
+  if (waterTemp !== undefined && waterTemp < MIN_WATER_F[profile.wetsuit_tolerance]) {
+    const suit = profile.wetsuit_tolerance === 'boardshorts' ? 'boardshorts' : `a ${profile.wetsuit_tolerance}`;
+    reasons.push(`Water is ${Math.round(waterTemp)}°F — colder than you like in ${suit}`);
+    penalty += 1;
+  }
+
+  let verdict: PersonalVerdict['verdict'];
+  if (score < 45 || penalty >= 3) verdict = 'skip';
+  else if (score >= 65 && penalty === 0) verdict = 'go';
+  else verdict = 'maybe';
+
+  if (reasons.length === 0) {
+    reasons.push(score >= 65
+      ? `Scores ${score}/100 and sits well within your comfort zone`
+      : `Scores ${score}/100 — rideable, but nothing special`);
+  }
+
+  return { verdict, headline: HEADLINES[verdict], reasons };
+}
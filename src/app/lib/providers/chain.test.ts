@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getProviderHealth, runWithFallback } from './chain';
+
+// Health is kept per instance for the life of the module, so every test uses its own provider names
+let run = 0;
+function providers(...names: string[]) {
+  run++;
+  return names.map(name => ({ name: `${name}-${run}`, timeoutMs: 50 }));
+}
+
+function healthOf(name: string) {
+  return getProviderHealth().find(h => h.kind === 'marine' && h.provider === name);
+}
+
+const fail = (message: string) => () => Promise.reject(new Error(message));
+
+describe('runWithFallback', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('serves from the first provider that succeeds and records the ones that failed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const [primary, mirror] = providers('primary', 'mirror');
+
+    const result = await runWithFallback('marine', [primary, mirror], p =>
+      p === primary ? fail('upstream 502')() : Promise.resolve('mirror data')
+    );
+
+    expect(result).toEqual({
+      data: 'mirror data',
+      provider: mirror.name,
+      fallbacks: [{ provider: primary.name, error: 'upstream 502' }],
+    });
+    expect(healthOf(primary.name)).toMatchObject({ failures: 1, consecutiveFailures: 1, lastError: 'upstream 502' });
+    expect(healthOf(mirror.name)).toMatchObject({ successes: 1, consecutiveFailures: 0 });
+  });
+
+  it('treats a provider that runs past its timeout as failed and moves on', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const [slow, fast] = providers('slow', 'fast');
+
+    const result = await runWithFallback('marine', [slow, fast], p =>
+      p === slow ? new Promise<string>(() => {}) : Promise.resolve('fast data')
+    );
+
+    expect(result.provider).toBe(fast.name);
+    expect(result.fallbacks).toEqual([{ provider: slow.name, error: `${slow.name} timed out after 50ms` }]);
+  });
+
+  it('throws with every provider error when the whole chain fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const [a, b] = providers('a', 'b');
+
+    await expect(runWithFallback('marine', [a, b], p => fail(`${p.name} down`)())).rejects.toThrow(
+      `All marine providers failed — ${a.name}: ${a.name} down; ${b.name}: ${b.name} down`
+    );
+  });
+
+  it('throws when no providers are configured', async () => {
+    await expect(runWithFallback('marine', [], () => Promise.resolve(1))).rejects.toThrow('No marine providers configured');
+  });
+
+  it('skips a provider after 3 failures in a row until the cooldown passes', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-18T13:00:00Z'));
+
+    const [flaky, backup] = providers('flaky', 'backup');
+    const calls: string[] = [];
+    let flakyDown = true;
+    const call = (p: { name: string }) => {
+      calls.push(p.name);
+      return p === flaky && flakyDown ? fail('flaky down')() : Promise.resolve(p.name);
+    };
+
+    for (let i = 0; i < 3; i++) await runWithFallback('marine', [flaky, backup], call);
+    expect(calls.filter(name => name === flaky.name)).toHaveLength(3);
+
+    // Cooling down: not called at all, and reported as skipped
+    calls.length = 0;
+    const skipped = await runWithFallback('marine', [flaky, backup], call);
+    expect(calls).toEqual([backup.name]);
+    expect(skipped.fallbacks).toEqual([{ provider: flaky.name, error: 'skipped: cooling down after repeated failures' }]);
+
+    // Still cooling down just before two minutes
+    vi.setSystemTime(new Date('2025-10-18T13:01:59Z'));
+    calls.length = 0;
+    await runWithFallback('marine', [flaky, backup], call);
+    expect(calls).toEqual([backup.name]);
+
+    // Back in rotation afterwards, and a success clears its failure streak
+    vi.setSystemTime(new Date('2025-10-18T13:02:01Z'));
+    flakyDown = false;
+    calls.length = 0;
+    const recovered = await runWithFallback('marine', [flaky, backup], call);
+    expect(calls).toEqual([flaky.name]);
+    expect(recovered.provider).toBe(flaky.name);
+    expect(healthOf(flaky.name)).toMatchObject({ consecutiveFailures: 0, failures: 3, successes: 1 });
+  });
+
+  it('still tries cooling-down providers when the whole chain is cooling down', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const [only] = providers('only');
+    let attempts = 0;
+    const call = () => {
+      attempts++;
+      return attempts <= 3 ? fail('down')() : Promise.resolve('back');
+    };
+
+    for (let i = 0; i < 3; i++) await expect(runWithFallback('marine', [only], call)).rejects.toThrow();
+    const result = await runWithFallback('marine', [only], call);
+
+    expect(attempts).toBe(4);
+    expect(result).toEqual({ data: 'back', provider: only.name, fallbacks: [] });
+  });
+});
@@ -0,0 +1,112 @@
+import type { ProviderKind, ProviderResult } from './types';
+
+export interface ProviderHealth {
+  kind: ProviderKind;
+  provider: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  averageLatencyMs: number | null;
+}
+
+// After this many failures in a row a provider is skipped until the cooldown passes
+const UNHEALTHY_AFTER_FAILURES = 3;
+const UNHEALTHY_COOLDOWN_MS = 2 * 60 * 1000;
+
+// Per-instance health; resets on cold start, which is fine for routing decisions
+const health = new Map<string, ProviderHealth>();
+
+function getHealth(kind: ProviderKind, provider: string): ProviderHealth {
+  const key = `${kind}:${provider}`;
+  let entry = health.get(key);
+  if (!entry) {
+    entry = {
+      kind,
+      provider,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      averageLatencyMs: null,
+    };
+    health.set(key, entry);
+  }
+  return entry;
+}
+
+function recordSuccess(entry: ProviderHealth, latencyMs: number) {
+  entry.successes++;
+  entry.consecutiveFailures = 0;
+  entry.lastSuccessAt = new Date().toISOString();
+  entry.averageLatencyMs = entry.averageLatencyMs === null
+    ? latencyMs
+    : Math.round(entry.averageLatencyMs * 0.8 + latencyMs * 0.2);
+}
+
+function recordFailure(entry: ProviderHealth, error: string) {
+  entry.failures++;
+  entry.consecutiveFailures++;
+  entry.lastFailureAt = new Date().toISOString();
+  entry.lastError = error;
+}
+
+function isCoolingDown(entry: ProviderHealth): boolean {
+  if (entry.consecutiveFailures < UNHEALTHY_AFTER_FAILURES || !entry.lastFailureAt) return false;
+  return Date.now() - new Date(entry.lastFailureAt).getTime() < UNHEALTHY_COOLDOWN_MS;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, provider: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${provider} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).then(
+    result => { clearTimeout(timer); return result; },
+    error => { clearTimeout(timer); throw error; }
+  );
+}
+
+// Tries each provider in order until one succeeds. Providers that keep failing are
+// skipped while they cool down, unless every provider in the chain is cooling down.
+export async function runWithFallback<P extends { name: string; timeoutMs: number }, T>(
+  kind: ProviderKind,
+  providers: P[],
+  call: (provider: P) => Promise<T>
+): Promise<ProviderResult<T>> {
+  if (providers.length === 0) throw new Error(`No ${kind} providers configured`);
+
+  const healthy = providers.filter(p => !isCoolingDown(getHealth(kind, p.name)));
+  const candidates = healthy.length > 0 ? healthy : providers;
+  const fallbacks: ProviderResult<T>['fallbacks'] = providers
+    .filter(p => !candidates.includes(p))
+    .map(p => ({ provider: p.name, error: 'skipped: cooling down after repeated failures' }));
+
+  for (const provider of candidates) {
+    const entry = getHealth(kind, provider.name);
+    const start = Date.now();
+    try {
+      const data = await withTimeout(call(provider), provider.timeoutMs, provider.name);
+      recordSuccess(entry, Date.now() - start);
+      if (fallbacks.length > 0) {
+        console.warn(`⚠️ ${kind} served by fallback ${provider.name} after: ${fallbacks.map(f => f.provider).join(', ')}`);
+      }
+      return { data, provider: provider.name, fallbacks };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      recordFailure(entry, message);
+      console.error(`❌ ${kind} provider ${provider.name} failed: ${message}`);
+      fallbacks.push({ provider: provider.name, error: message });
+    }
+  }
+
+  throw new Error(`All ${kind} providers failed — ${fallbacks.map(f => `${f.provider}: ${f.error}`).join('; ')}`);
+}
+
+export function getProviderHealth(): ProviderHealth[] {
+  return Array.from(health.values()).map(entry => ({ ...entry }));
+}
@@ -0,0 +1,60 @@
+import { parseNoaaPredictions, parseNoaaWaterLevels } from '../tides';
+import { parseObservedTide } from './noaa';
+import { parseMarineResponse, parseWeatherResponse } from './open-meteo';
+import type { MarineProvider, TideProvider, WeatherProvider } from './types';
+import huntingtonBeach from './fixtures/huntington-beach.json';
+import stAugustine from './fixtures/st-augustine.json';
+
+// Raw upstream responses as of `recorded_at`, replayed through the live parsers.
+// st-augustine is a captured response; huntington-beach is hand-built in the same
+// shapes so an offshore-NE, west-facing coast is covered too.
+interface RecordedFixture {
+  recorded_at: string;
+  location: string;
+  marine: unknown;
+  weather: unknown;
+  tide: {
+    water_level: unknown;
+    predictions_hilo: unknown;
+  };
+}
+
+const FIXTURES: Record<string, RecordedFixture> = {
+  'st-augustine': stAugustine,
+  'huntington-beach': huntingtonBeach,
+};
+
+function getFixture(slug: string): RecordedFixture {
+  const fixture = FIXTURES[slug];
+  if (!fixture) throw new Error(`No recorded fixture for ${slug}`);
+  return fixture;
+}
+
+// Fixtures are always parsed as of their recording time, so the result never drifts
+export const fixtureMarineProvider: MarineProvider = {
+  name: 'fixture',
+  timeoutMs: 1000,
+  async getMarine(location) {
+    const fixture = getFixture(location.slug);
+    return parseMarineResponse(fixture.marine, new Date(fixture.recorded_at));
+  },
+};
+
+export const fixtureTideProvider: TideProvider = {
+  name: 'fixture',
+  timeoutMs: 1000,
+  async getTide(location) {
+    const fixture = getFixture(location.slug);
+    const levels = parseNoaaWaterLevels(fixture.tide.water_level);
+    const hilo = parseNoaaPredictions(fixture.tide.predictions_hilo);
+    return parseObservedTide(levels[levels.length - 1], hilo, new Date(fixture.recorded_at));
+  },
+};
+
+export const fixtureWeatherProvider: WeatherProvider = {
+  name: 'fixture',
+  timeoutMs: 1000,
+  async getWeather(location) {
+    return parseWeatherResponse(getFixture(location.slug).weather);
+  },
+};
@@ -0,0 +1,67 @@
+import type { Location } from '../locations';
+import { runWithFallback } from './chain';
+import { fixtureMarineProvider, fixtureTideProvider, fixtureWeatherProvider } from './fixture';
+import { noaaObservedTideProvider, noaaPredictedTideProvider } from './noaa';
+import { openMeteoMarineMirrorProvider, openMeteoMarineProvider, openMeteoWeatherProvider } from './open-meteo';
+import type {
+  MarineConditions,
+  MarineProvider,
+  ProviderResult,
+  TideConditions,
+  TideProvider,
+  WeatherConditions,
+  WeatherProvider,
+} from './types';
+
+export { getProviderHealth, type ProviderHealth } from './chain';
+export type { MarineConditions, ProviderResult, TideConditions, WeatherConditions } from './types';
+
+const MARINE_PROVIDERS: Record<string, MarineProvider> = {
+  [openMeteoMarineProvider.name]: openMeteoMarineProvider,
+  [openMeteoMarineMirrorProvider.name]: openMeteoMarineMirrorProvider,
+  [fixtureMarineProvider.name]: fixtureMarineProvider,
+};
+
+const TIDE_PROVIDERS: Record<string, TideProvider> = {
+  [noaaObservedTideProvider.name]: noaaObservedTideProvider,
+  [noaaPredictedTideProvider.name]: noaaPredictedTideProvider,
+  [fixtureTideProvider.name]: fixtureTideProvider,
+};
+
+const WEATHER_PROVIDERS: Record<string, WeatherProvider> = {
+  [openMeteoWeatherProvider.name]: openMeteoWeatherProvider,
+  [fixtureWeatherProvider.name]: fixtureWeatherProvider,
+};
+
+const DEFAULT_MARINE_CHAIN = ['open-meteo', 'open-meteo-marine-api'];
+const DEFAULT_TIDE_CHAIN = ['noaa', 'noaa-predicted'];
+const DEFAULT_WEATHER_CHAIN = ['open-meteo'];
+
+// Chains come from a comma-separated env var, e.g. SURF_TIDE_PROVIDERS=noaa-predicted,noaa.
+// SURF_PROVIDERS=fixture replays recorded responses for every source, for offline runs.
+function resolveChain<P>(registry: Record<string, P>, envValue: string | undefined, defaults: string[]): P[] {
+  const names = process.env.SURF_PROVIDERS === 'fixture'
+    ? ['fixture']
+    : envValue?.split(',').map(n => n.trim()).filter(Boolean) ?? defaults;
+
+  return names.map(name => {
+    const provider = registry[name];
+    if (!provider) throw new Error(`Unknown data provider "${name}" (available: ${Object.keys(registry).join(', ')})`);
+    return provider;
+  });
+}
+
+export async function fetchMarineConditions(location: Location): Promise<ProviderResult<MarineConditions>> {
+  const chain = resolveChain(MARINE_PROVIDERS, process.env.SURF_MARINE_PROVIDERS, DEFAULT_MARINE_CHAIN);
+  return runWithFallback('marine', chain, p => p.getMarine(location));
+}
+
+export async function fetchTideConditions(location: Location): Promise<ProviderResult<TideConditions>> {
+  const chain = resolveChain(TIDE_PROVIDERS, process.env.SURF_TIDE_PROVIDERS, DEFAULT_TIDE_CHAIN);
+  return runWithFallback('tide', chain, p => p.getTide(location));
+}
+
+export async function fetchWeatherConditions(location: Location): Promise<ProviderResult<WeatherConditions>> {
+  const chain = resolveChain(WEATHER_PROVIDERS, process.env.SURF_WEATHER_PROVIDERS, DEFAULT_WEATHER_CHAIN);
+  return runWithFallback('weather', chain, p => p.getWeather(location));
+}
@@ -0,0 +1,82 @@
+import {
+  calculateTideState,
+  fetchLatestWaterLevel,
+  fetchTidePredictions,
+  findSurroundingTideEvents,
+  type TidePrediction,
+  type WaterLevel,
+} from '../tides';
+import type { TideConditions, TideProvider } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// An observed reading older than this is a stalled gauge, not "now"
+const MAX_WATER_LEVEL_AGE_MS = HOUR_MS;
+
+function buildTideConditions(currentHeight: number, hilo: TidePrediction[], now: Date): TideConditions {
+  const { nextHigh, nextLow, previousHigh, previousLow } = findSurroundingTideEvents(hilo, now);
+  const state = calculateTideState(currentHeight, nextHigh, nextLow, previousHigh, previousLow, now);
+  return { currentHeight, state, nextHigh, nextLow, previousHigh, previousLow };
+}
+
+// Current height from the live gauge, state from the surrounding highs and lows
+export function parseObservedTide(latest: WaterLevel, hilo: TidePrediction[], now: Date): TideConditions {
+  const age = now.getTime() - new Date(latest.t).getTime();
+  if (age > MAX_WATER_LEVEL_AGE_MS) {
+    throw new Error(`Latest water level is ${Math.round(age / 60000)} minutes old`);
+  }
+
+  const currentHeight = parseFloat(latest.v);
+  if (isNaN(currentHeight)) throw new Error(`Invalid water level: ${latest.v}`);
+
+  return buildTideConditions(currentHeight, hilo, now);
+}
+
+// Current height from the six-minute prediction nearest `now`, for stations without a live gauge
+export function parsePredictedTide(predictions: TidePrediction[], hilo: TidePrediction[], now: Date): TideConditions {
+  let closest: TidePrediction | null = null;
+  let smallestDiff = Infinity;
+
+  for (const p of predictions) {
+    const diff = Math.abs(new Date(p.t).getTime() - now.getTime());
+    if (diff < smallestDiff) {
+      smallestDiff = diff;
+      closest = p;
+    }
+  }
+
+  if (!closest || smallestDiff > HOUR_MS) throw new Error('No tide prediction near the current time');
+
+  return buildTideConditions(parseFloat(closest.v), hilo, now);
+}
+
+function fetchHilo(stationId: string, now: Date, timeoutMs: number) {
+  return fetchTidePredictions(stationId, new Date(now.getTime() - DAY_MS), new Date(now.getTime() + DAY_MS), 'hilo', timeoutMs);
+}
+
+export const noaaObservedTideProvider: TideProvider = {
+  name: 'noaa',
+  timeoutMs: 8000,
+  async getTide(location) {
+    const now = new Date();
+    const [latest, hilo] = await Promise.all([
+      fetchLatestWaterLevel(location.noaaStationId, this.timeoutMs),
+      fetchHilo(location.noaaStationId, now, this.timeoutMs),
+    ]);
+    return parseObservedTide(latest, hilo, now);
+  },
+};
+
+export const noaaPredictedTideProvider: TideProvider = {
+  name: 'noaa-predicted',
+  timeoutMs: 8000,
+  async getTide(location) {
+    const now = new Date();
+    const [predictions, hilo] = await Promise.all([
+      fetchTidePredictions(location.noaaStationId, now, now, '6', this.timeoutMs),
+      fetchHilo(location.noaaStationId, now, this.timeoutMs),
+    ]);
+    return parsePredictedTide(predictions, hilo, now);
+  },
+};
@@ -0,0 +1,106 @@
+import type { Location } from '../locations';
+import {
+  fetchMarineJsonFrom,
+  fetchWeatherJson,
+  parseOpenMeteoGmt,
+  readWaveComponents,
+  KMH_TO_KNOTS,
+  MARINE_ENDPOINTS,
+  MARINE_PARTITION_VARIABLES,
+  METERS_TO_FEET,
+} from '../open-meteo';
+import type { MarineConditions, MarineProvider, WeatherConditions, WeatherProvider } from './types';
+
+function isValidNumber(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+export function marineParams(location: Location): string {
+  return `latitude=${location.lat}&longitude=${location.lon}&hourly=wave_height,wave_period,sea_surface_temperature,${MARINE_PARTITION_VARIABLES}&timezone=GMT`;
+}
+
+export function weatherParams(location: Location): string {
+  return `latitude=${location.lat}&longitude=${location.lon}&current=temperature_2m,weather_code,wind_speed_10m,wind_direction_10m&timezone=GMT&forecast_days=1`;
+}
+
+// Picks the hourly marine row closest to `now` and sanity-checks it.
+// Pure so recorded responses can be replayed through it.
+export function parseMarineResponse(marineData: any, now: Date): MarineConditions {
+  if (!marineData?.hourly?.time) {
+    throw new Error('No marine data available');
+  }
+
+  const times: string[] = marineData.hourly.time;
+
+  let closestIndex = 0;
+  let smallestDiff = Infinity;
+
+  for (let i = 0; i < times.length; i++) {
+    const diff = Math.abs(parseOpenMeteoGmt(times[i]).getTime() - now.getTime());
+    if (diff < smallestDiff) {
+      smallestDiff = diff;
+      closestIndex = i;
+    }
+  }
+
+  const waveHeight = marineData.hourly.wave_height?.[closestIndex];
+  const wavePeriod = marineData.hourly.wave_period?.[closestIndex];
+  const swellDirection = marineData.hourly.swell_wave_direction?.[closestIndex];
+  const waterTemp = marineData.hourly.sea_surface_temperature?.[closestIndex];
+
+  if (!isValidNumber(waveHeight)) throw new Error(`Invalid wave height: ${waveHeight}`);
+  if (!isValidNumber(wavePeriod)) throw new Error(`Invalid wave period: ${wavePeriod}`);
+  if (!isValidNumber(swellDirection)) throw new Error(`Invalid swell direction: ${swellDirection}`);
+  if (!isValidNumber(waterTemp)) throw new Error(`Invalid water temperature: ${waterTemp}`);
+  if (waveHeight < 0 || waveHeight > 30) throw new Error(`Wave height ${waveHeight}m outside reasonable bounds`);
+  if (wavePeriod < 2 || wavePeriod > 25) throw new Error(`Wave period ${wavePeriod}s outside reasonable bounds`);
+  if (waterTemp < -5 || waterTemp > 40) throw new Error(`Water temperature ${waterTemp}°C outside reasonable bounds`);
+
+  return {
+    waveHeight: waveHeight * METERS_TO_FEET,
+    wavePeriod,
+    swellDirection,
+    waterTemp,
+    components: readWaveComponents(marineData.hourly, closestIndex),
+  };
+}
+
+export function parseWeatherResponse(weatherData: any): WeatherConditions {
+  const current = weatherData?.current;
+  if (!current) throw new Error('No current weather available');
+
+  const { temperature_2m, weather_code, wind_speed_10m, wind_direction_10m } = current;
+  if (!isValidNumber(wind_speed_10m)) throw new Error(`Invalid wind speed: ${wind_speed_10m}`);
+  if (!isValidNumber(wind_direction_10m)) throw new Error(`Invalid wind direction: ${wind_direction_10m}`);
+  if (!isValidNumber(temperature_2m)) throw new Error(`Invalid air temperature: ${temperature_2m}`);
+
+  return {
+    airTemperature: temperature_2m,
+    weatherCode: weather_code,
+    windSpeed: wind_speed_10m * KMH_TO_KNOTS,
+    windDirection: wind_direction_10m,
+  };
+}
+
+function createMarineProvider(name: string, endpoint: string): MarineProvider {
+  return {
+    name,
+    timeoutMs: 12000,
+    async getMarine(location) {
+      const json = await fetchMarineJsonFrom(endpoint, marineParams(location), this.timeoutMs);
+      return parseMarineResponse(json, new Date());
+    },
+  };
+}
+
+// Same model behind both hosts, but they fail independently
+export const openMeteoMarineProvider = createMarineProvider('open-meteo', MARINE_ENDPOINTS[0]);
+export const openMeteoMarineMirrorProvider = createMarineProvider('open-meteo-marine-api', MARINE_ENDPOINTS[1]);
+
+export const openMeteoWeatherProvider: WeatherProvider = {
+  name: 'open-meteo',
+  timeoutMs: 10000,
+  async getWeather(location) {
+    return parseWeatherResponse(await fetchWeatherJson(weatherParams(location), this.timeoutMs));
+  },
+};
@@ -0,0 +1,54 @@
+import type { Location } from '../locations';
+import type { WaveComponents } from '../surfability';
+import type { TideEvent } from '../tides';
+
+export interface MarineConditions {
+  waveHeight: number;    // feet
+  wavePeriod: number;    // seconds
+  swellDirection: number;
+  waterTemp: number;     // °C
+  components: WaveComponents;
+}
+
+export interface TideConditions {
+  currentHeight: number; // feet above MLLW
+  state: string;
+  nextHigh: TideEvent | null;
+  nextLow: TideEvent | null;
+  previousHigh: TideEvent | null;
+  previousLow: TideEvent | null;
+}
+
+export interface WeatherConditions {
+  airTemperature: number; // °C
+  weatherCode: number;    // WMO code
+  windSpeed: number;      // knots
+  windDirection: number;
+}
+
+interface Provider {
+  name: string;
+  // Hard limit enforced by the fallback chain, on top of any fetch-level timeout
+  timeoutMs: number;
+}
+
+export interface MarineProvider extends Provider {
+  getMarine(location: Location): Promise<MarineConditions>;
+}
+
+export interface TideProvider extends Provider {
+  getTide(location: Location): Promise<TideConditions>;
+}
+
+export interface WeatherProvider extends Provider {
+  getWeather(location: Location): Promise<WeatherConditions>;
+}
+
+export type ProviderKind = 'marine' | 'tide' | 'weather';
+
+export interface ProviderResult<T> {
+  data: T;
+  provider: string;
+  // Providers tried before this one succeeded, with why they were passed over
+  fallbacks: Array<{ provider: string; error: string }>;
+}
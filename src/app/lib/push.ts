@@ -0,0 +1,53 @@
+import webpush from 'web-push';
+import { z } from 'zod';
+import type { PushSubscriptionData } from '../types/alerts';
+
+// VAPID keys come from `npx web-push generate-vapid-keys`; the public one is
+// also what the browser passes as applicationServerKey when subscribing
+export function getVapidPublicKey(): string | null {
+  return process.env.VAPID_PUBLIC_KEY || null;
+}
+
+export function isPushConfigured(): boolean {
+  return Boolean(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+let vapidConfigured = false;
+
+function configureVapid(): void {
+  if (vapidConfigured) return;
+  if (!isPushConfigured()) throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set to send push notifications');
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || 'mailto:alerts@surf-lab.local',
+    process.env.VAPID_PUBLIC_KEY!,
+    process.env.VAPID_PRIVATE_KEY!
+  );
+  vapidConfigured = true;
+}
+
+// PushSubscription.toJSON() as posted by the browser
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export type PushResult = 'sent' | 'gone';
+
+// 'gone' means the push service has dropped the subscription (unsubscribed or
+// expired) and it should be deleted; any other failure is thrown
+export async function sendPushNotification(subscription: PushSubscriptionData, payload: object): Promise<PushResult> {
+  configureVapid();
+  try {
+    await webpush.sendNotification(subscription, JSON.stringify(payload), { TTL: 60 * 60 });
+    return 'sent';
+  } catch (error) {
+    if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+      return 'gone';
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,98 @@
+import type { FreshnessThresholds, Location } from './locations';
+import type { SurfReport } from '../types/surf-report';
+import { getCachedCurrentConditions } from './conditions';
+import { angularDifference } from './surfability';
+
+// A cached report is only as good as the conditions it describes. Before serving one,
+// its stored conditions are compared with the current (cached) surfability read, and
+// a material change — bigger surf, wind swinging onshore, a storm rolling in — sends
+// the request down the generation path as if the cache had missed.
+
+export const DEFAULT_FRESHNESS_THRESHOLDS: FreshnessThresholds = {
+  waveHeightFt: 1,
+  windSpeedKts: 8,
+  windDirectionDeg: 60,
+  weather: true,
+};
+
+// Light wind swings around without changing the surf, so its direction isn't compared
+const WIND_DIRECTION_MIN_KTS = 6;
+
+export type FreshnessCheck =
+  | { current: true }
+  | { current: false; reasons: string[] };
+
+export function getFreshnessThresholds(location: Location): FreshnessThresholds {
+  return { ...DEFAULT_FRESHNESS_THRESHOLDS, ...location.freshnessThresholds };
+}
+
+type WeatherClass = 'clear' | 'fog' | 'rain' | 'thunderstorm';
+
+// Groups WMO codes so drizzle turning to rain doesn't count, but rain turning to a storm does
+function weatherClass(code: number | undefined, description: string | undefined): WeatherClass | null {
+  if (typeof code === 'number') {
+    if (code >= 95) return 'thunderstorm';
+    if (code >= 51) return 'rain';
+    if (code >= 45) return 'fog';
+    return 'clear';
+  }
+
+  // Reports saved before weather_code was recorded only have the description
+  if (!description || description === 'Unknown conditions') return null;
+  if (/thunderstorm/i.test(description)) return 'thunderstorm';
+  if (/rain|drizzle|shower/i.test(description)) return 'rain';
+  if (/fog/i.test(description)) return 'fog';
+  return 'clear';
+}
+
+// Reasons the report's conditions no longer hold, empty when they still do
+export function describeConditionChanges(
+  stored: SurfReport['conditions'],
+  current: Record<string, any>,
+  thresholds: FreshnessThresholds
+): string[] {
+  const reasons: string[] = [];
+  const { details, weather } = current;
+
+  if (Math.abs(details.wave_height_ft - stored.wave_height_ft) >= thresholds.waveHeightFt) {
+    reasons.push(`wave height ${stored.wave_height_ft}ft → ${details.wave_height_ft}ft`);
+  }
+
+  if (Math.abs(details.wind_speed_kts - stored.wind_speed_kts) >= thresholds.windSpeedKts) {
+    reasons.push(`wind speed ${stored.wind_speed_kts}kts → ${details.wind_speed_kts}kts`);
+  }
+
+  if (
+    Math.max(details.wind_speed_kts, stored.wind_speed_kts) >= WIND_DIRECTION_MIN_KTS &&
+    angularDifference(details.wind_direction_deg, stored.wind_direction_deg) >= thresholds.windDirectionDeg
+  ) {
+    reasons.push(`wind direction ${Math.round(stored.wind_direction_deg)}° → ${details.wind_direction_deg}°`);
+  }
+
+  if (thresholds.weather) {
+    const before = weatherClass(stored.weather_code, stored.weather_description);
+    const now = weatherClass(weather.weather_code, weather.weather_description);
+    if (before && now && before !== now) {
+      reasons.push(`weather ${stored.weather_description} → ${weather.weather_description}`);
+    }
+  }
+
+  return reasons;
+}
+
+// Fails open: when current conditions can't be read, the cached report stands
+export async function checkReportFreshness(location: Location, report: SurfReport): Promise<FreshnessCheck> {
+  try {
+    const { value } = await getCachedCurrentConditions(location);
+    if (!value.ok) {
+      console.warn(`⚠️ Skipping freshness check for ${location.name}: ${value.unavailable.error}`);
+      return { current: true };
+    }
+
+    const reasons = describeConditionChanges(report.conditions, value.payload, getFreshnessThresholds(location));
+    return reasons.length === 0 ? { current: true } : { current: false, reasons };
+  } catch (error) {
+    console.warn(`⚠️ Freshness check failed for ${location.name}, serving the cached report:`, error);
+    return { current: true };
+  }
+}
@@ -0,0 +1,133 @@
+import type { Location } from './locations';
+import type { SurfReport } from '../types/surf-report';
+import { getSessionWindows, describeSessionWindows, type SessionWindow } from './session-windows';
+
+// Shared by /api/surf-report and its streaming variant: everything around the
+// Bun call that turns a location into a saved report.
+
+// Older reports are regenerated rather than served from cache
+export const MAX_CACHED_REPORT_AGE_HOURS = 8;
+
+export interface GenerationInputs {
+  surfData: any;
+  sessionWindows: SessionWindow[] | null;
+  surfDataTime: number;
+}
+
+export function getInternalBaseUrl(host: string | null): string {
+  return process.env.NEXT_PUBLIC_API_URL || (host ? `https://${host}` : 'http://localhost:3000');
+}
+
+export async function fetchGenerationInputs(baseUrl: string, location: Location): Promise<GenerationInputs> {
+  const surfDataStart = Date.now();
+  const surfDataResponse = await fetch(
+    `${baseUrl}/api/surfability?location=${location.slug}&nocache=${Date.now()}`,
+    {
+      cache: 'no-store',
+      headers: { 'User-Agent': 'SurfLab-AI/1.0', 'X-Force-Fresh': 'true' },
+      signal: AbortSignal.timeout(15000)
+    }
+  );
+  const surfDataTime = Date.now() - surfDataStart;
+
+  if (!surfDataResponse.ok) {
+    throw new Error(`Failed to fetch surf conditions: ${surfDataResponse.status}`);
+  }
+
+  const surfData = await surfDataResponse.json();
+  console.log(`📊 Fresh surf data: ${surfData.location}, wave ${surfData.details.wave_height_ft}ft`);
+
+  // Best-effort: timing advice falls back to generic tide guidance without these
+  let sessionWindows: SessionWindow[] | null = null;
+  try {
+    sessionWindows = await getSessionWindows(location);
+  } catch (windowsError) {
+    console.warn(`⚠️ Session windows unavailable for ${location.name}:`, windowsError);
+  }
+
+  return { surfData, sessionWindows, surfDataTime };
+}
+
+// Request body for the Bun service's /generate-surf-report endpoints
+export function buildBunRequestBody(location: Location, { surfData, sessionWindows }: GenerationInputs) {
+  return {
+    surfData,
+    apiKey: process.env.BUN_API_SECRET,
+    localKnowledge: location.localKnowledge,
+    voiceDescriptor: location.voiceDescriptor,
+    bestSpots: location.bestSpots,
+    locationName: location.name,
+    lat: location.lat,
+    timezone: location.timezone,
+    sessionWindows,
+    timingAdvice: sessionWindows ? describeSessionWindows(sessionWindows) : null,
+  };
+}
+
+export function enhanceReportWithCompassDirections(report: any, surfData: any): any {
+  report.conditions = {
+    ...report.conditions,
+    swell_direction_deg: surfData.details.swell_direction_deg,
+    swell_direction_compass: surfData.details.swell_direction_compass,
+    swell_direction_text: surfData.details.swell_direction_text,
+    swell_direction_description: surfData.details.swell_direction_description,
+    swell_components: surfData.details.swell_components,
+    wind_direction_compass: surfData.details.wind_direction_compass,
+    wind_direction_text: surfData.details.wind_direction_text,
+    wind_direction_description: surfData.details.wind_direction_description,
+    tide_height_ft: surfData.details.tide_height_ft,
+    weather_code: surfData.weather.weather_code,
+    water_temperature_c: surfData.weather.water_temperature_c,
+    water_temperature_f: surfData.weather.water_temperature_f,
+    air_temperature_c: surfData.weather.air_temperature_c,
+    air_temperature_f: surfData.weather.air_temperature_f
+  };
+  return report;
+}
+
+// Used when the Bun service is unreachable or not configured
+export function createLocalFallbackReport(location: Location, { surfData, sessionWindows }: GenerationInputs): SurfReport {
+  const windMph = Math.round(surfData.details.wind_speed_kts * 1.15078);
+
+  return {
+    id: `surf_fallback_${location.slug}_${Date.now()}_${Math.random().toString(36).substr(2, 4)}`,
+    timestamp: new Date().toISOString(),
+    location: location.slug,
+    report: createDetailedFallbackReport(surfData, windMph, location),
+    conditions: {
+      wave_height_ft: surfData.details.wave_height_ft,
+      wave_period_sec: surfData.details.wave_period_sec,
+      wind_speed_kts: surfData.details.wind_speed_kts,
+      wind_direction_deg: surfData.details.wind_direction_deg,
+      tide_state: surfData.details.tide_state,
+      weather_description: surfData.weather.weather_description,
+      surfability_score: surfData.score
+    },
+    recommendations: {
+      board_type: surfData.details.wave_height_ft >= 3 ? 'Shortboard' : 'Longboard',
+      wetsuit_thickness: surfData.weather.water_temperature_f < 65 ? '3/2mm' : surfData.weather.water_temperature_f < 72 ? 'Spring suit' : undefined,
+      skill_level: surfData.score >= 65 ? 'intermediate' : 'beginner',
+      best_spots: location.bestSpots,
+      timing_advice: sessionWindows
+        ? describeSessionWindows(sessionWindows)
+        : 'Check conditions regularly as they change throughout the day'
+    },
+    cached_until: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString()
+  };
+}
+
+function createDetailedFallbackReport(surfData: any, windMph: number, location: Location): string {
+  const condition = surfData.score >= 70 ? 'good' : surfData.score >= 50 ? 'fair' : 'poor';
+  const waveDesc = surfData.details.wave_height_ft >= 4 ? 'solid'
+    : surfData.details.wave_height_ft >= 2 ? 'fun-sized' : 'small';
+  const swellCompass = surfData.details.swell_direction_compass || 'unknown direction';
+  const windCompass = surfData.details.wind_direction_compass || 'variable';
+  const primarySpot = location.bestSpots[0] || location.name;
+  const secondarySpot = location.bestSpots[1] || location.name;
+
+  const paragraph1 = `${location.name} surf check shows ${waveDesc} ${surfData.details.wave_height_ft}ft waves at ${surfData.details.wave_period_sec} seconds from ${swellCompass} direction, delivering ${surfData.details.wave_period_sec >= 10 ? 'decent power with some long rides' : 'quicker, choppier waves with less push'}. Wind is ${windMph} mph from the ${windCompass} which ${windMph < 10 ? 'is light enough for clean conditions' : 'is creating some texture and bump on the water'}. Tide is ${surfData.details.tide_state.toLowerCase()} and water temp is ${surfData.weather.water_temperature_f}°F.`;
+
+  const paragraph2 = `${surfData.details.wave_height_ft >= 3 ? `Grab your shortboard and head to ${primarySpot} where the waves should have some punch` : `${primarySpot} or ${secondarySpot} should find a way to produce rideable waves on a day like this`}. ${surfData.weather.water_temperature_f < 65 ? 'You\'ll want a 3/2mm or thicker wetsuit for that cold water' : surfData.weather.water_temperature_f < 72 ? 'A spring suit should be fine' : 'Boardshorts or spring suit territory — comfortable water temps'}. ${condition === 'good' ? 'Definitely worth the paddle out today!' : condition === 'fair' ? 'Surfable if you need your wave fix.' : 'Might be better for a beach walk, but conditions can change quickly.'}`;
+
+  return `${paragraph1}\n\n${paragraph2}`;
+}
@@ -0,0 +1,105 @@
+import type { Location } from './locations';
+import type { ConditionsSnapshot, ReportDaySummary } from './db';
+import type { SurfReport } from '../types/surf-report';
+
+export const MAX_REPORT_DAYS_LISTED = 60;
+
+// How long after a report to look at archived conditions when comparing
+export const REPORT_COMPARE_HOURS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function getReportRetentionDays(): number {
+  const parsed = parseInt(process.env.REPORT_HISTORY_RETENTION_DAYS ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 90;
+}
+
+export function isReportDate(value: string | null | undefined): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+// Today's date as YYYY-MM-DD in the spot's timezone
+export function todayIn(timezone: string): string {
+  return new Date().toLocaleDateString('en-CA', { timeZone: timezone });
+}
+
+export function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export interface ObservedComparison {
+  samples: number;
+  score: number;
+  wave_height_ft: number;
+  wind_speed_kts: number;
+  // Observed minus reported
+  score_delta: number;
+  wave_height_delta_ft: number;
+}
+
+export interface ReportHistoryEntry extends SurfReport {
+  observed: ObservedComparison | null;
+}
+
+export interface ReportHistoryDay {
+  date: string;
+  previous_date: string;
+  next_date: string | null;
+  reports: ReportHistoryEntry[];
+  days: ReportDaySummary[];
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Averages the archived conditions in the hours after a report went out, so a
+// report can be read against what actually showed up
+export function compareWithObserved(report: SurfReport, snapshots: ConditionsSnapshot[]): ObservedComparison | null {
+  const start = new Date(report.timestamp).getTime();
+  const end = start + REPORT_COMPARE_HOURS * HOUR_MS;
+  const window = snapshots.filter(s => {
+    const t = new Date(s.recorded_at).getTime();
+    return t >= start && t < end;
+  });
+  if (window.length === 0) return null;
+
+  const score = Math.round(average(window.map(s => s.score)));
+  const waveHeight = Math.round(average(window.map(s => s.wave_height_ft)) * 10) / 10;
+
+  return {
+    samples: window.length,
+    score,
+    wave_height_ft: waveHeight,
+    wind_speed_kts: Math.round(average(window.map(s => s.wind_speed_kts)) * 10) / 10,
+    score_delta: score - report.conditions.surfability_score,
+    wave_height_delta_ft: Math.round((waveHeight - report.conditions.wave_height_ft) * 10) / 10,
+  };
+}
+
+export async function getReportHistoryDay(location: Location, date: string): Promise<ReportHistoryDay> {
+  const { getConditionsHistory, getReportDays, getReportsForDay } = await import('./db');
+
+  const [reports, days] = await Promise.all([
+    getReportsForDay(location.slug, date, location.timezone),
+    getReportDays(location.slug, location.timezone, MAX_REPORT_DAYS_LISTED),
+  ]);
+
+  let snapshots: ConditionsSnapshot[] = [];
+  if (reports.length > 0) {
+    const from = reports[0].timestamp;
+    const to = new Date(new Date(reports[reports.length - 1].timestamp).getTime() + REPORT_COMPARE_HOURS * HOUR_MS).toISOString();
+    snapshots = await getConditionsHistory(location.slug, from, to, 'raw');
+  }
+
+  const today = todayIn(location.timezone);
+  return {
+    date,
+    previous_date: shiftDate(date, -1),
+    next_date: date < today ? shiftDate(date, 1) : null,
+    reports: reports.map(report => ({ ...report, observed: compareWithObserved(report, snapshots) })),
+    days,
+  };
+}
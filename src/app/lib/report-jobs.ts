@@ -0,0 +1,162 @@
+import type { Location } from './locations';
+import type { ReportJob, ReportJobStatus } from './db';
+import { BUN_CRON_TIMEOUT_MS, CRON_START_BUDGET_MS, getCronConcurrency, getDueSlot } from './report-schedule';
+
+// Persistent queue for cron report generation. Each location's scheduled slot is one
+// job keyed "slug:slot", so re-running the cron never generates a slot twice. Failed
+// jobs retry with exponential backoff and go dead after REPORT_JOB_MAX_ATTEMPTS.
+
+export const REPORT_JOB_MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 2 * 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// Longer than a Bun call, so a running job is only reclaimed once its runner is gone
+const JOB_LEASE_SECONDS = 60;
+// Kept for inspection and replay, and as the record that a slot was generated
+export const REPORT_JOB_RETENTION_DAYS = 30;
+
+export function reportJobKey(slug: string, slot: string): string {
+  return `${slug}:${slot}`;
+}
+
+// 2, 4, 8, 16 minutes… capped at an hour
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+export interface EnqueueSummary {
+  enqueued: string[];
+  // Already had a job for their current slot
+  up_to_date: string[];
+  superseded: number;
+}
+
+// One job per location for its current slot. `force` adds a job even when the slot has one.
+export async function enqueueDueReportJobs(locations: Location[], now: Date, force = false): Promise<EnqueueSummary> {
+  const { enqueueReportJob, supersedeReportJobs } = await import('./db');
+  const summary: EnqueueSummary = { enqueued: [], up_to_date: [], superseded: 0 };
+
+  for (const location of locations) {
+    const slot = getDueSlot(location, now);
+    const key = force ? `${reportJobKey(location.slug, slot)}:forced-${now.getTime()}` : reportJobKey(location.slug, slot);
+    const job = await enqueueReportJob(key, location.slug, slot, REPORT_JOB_MAX_ATTEMPTS);
+    if (job) {
+      summary.enqueued.push(location.slug);
+      summary.superseded += await supersedeReportJobs(location.slug, slot);
+    } else {
+      summary.up_to_date.push(location.slug);
+    }
+  }
+
+  return summary;
+}
+
+export interface ReportJobResult {
+  job_id: number;
+  slug: string;
+  slot: string;
+  attempt: number;
+  status: ReportJobStatus;
+  reportId?: string;
+  error?: string;
+  next_attempt_at?: string;
+  duration_ms: number;
+}
+
+export interface ReportJobRunOptions {
+  bunServiceUrl: string;
+  vercelUrl: string;
+  cronSecret: string;
+}
+
+async function callBunGenerate(job: ReportJob, location: Location, { bunServiceUrl, vercelUrl, cronSecret }: ReportJobRunOptions) {
+  const bunResponse = await fetch(`${bunServiceUrl}/cron/generate-fresh-report`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'SurfLab-Vercel-Cron/1.0' },
+    body: JSON.stringify({
+      cronSecret,
+      vercelUrl,
+      jobKey: job.idempotency_key,
+      locationSlug: location.slug,
+      locationName: location.name,
+      localKnowledge: location.localKnowledge,
+      voiceDescriptor: location.voiceDescriptor,
+      bestSpots: location.bestSpots,
+      lat: location.lat,
+      timezone: location.timezone,
+    }),
+    signal: AbortSignal.timeout(BUN_CRON_TIMEOUT_MS)
+  });
+
+  if (!bunResponse.ok) {
+    const errorText = await bunResponse.text();
+    throw new Error(`Bun service returned ${bunResponse.status}: ${errorText}`);
+  }
+
+  const bunResult = await bunResponse.json();
+  return bunResult.actions?.new_report_id as string | undefined;
+}
+
+// Runs one claimed job to a recorded outcome
+export async function executeReportJob(job: ReportJob, locations: Map<string, Location>, options: ReportJobRunOptions): Promise<ReportJobResult> {
+  const { completeReportJob, failReportJob, getReportJob } = await import('./db');
+  const start = Date.now();
+  const base = { job_id: job.id, slug: job.location, slot: job.slot, attempt: job.attempts };
+
+  try {
+    const location = locations.get(job.location);
+    if (!location) throw new Error(`Location ${job.location} is unknown or disabled`);
+
+    console.log(`🌊 Job ${job.id}: generating ${job.slot} report for ${location.name} (attempt ${job.attempts}/${job.max_attempts})`);
+    const reportId = await callBunGenerate(job, location, options);
+    await completeReportJob(job.id, reportId ?? null);
+    console.log(`✅ Job ${job.id}: ${location.name} report generated (${reportId})`);
+    return { ...base, status: 'succeeded', reportId, duration_ms: Date.now() - start };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const failed = await failReportJob(job.id, message, new Date(Date.now() + getRetryDelayMs(job.attempts)));
+
+    // No longer running: the save went through and completed the job by its key
+    if (!failed) {
+      const current = await getReportJob(job.id);
+      if (current?.status === 'succeeded') {
+        console.log(`✅ Job ${job.id}: saved despite "${message}"`);
+        return { ...base, status: 'succeeded', reportId: current.report_id ?? undefined, duration_ms: Date.now() - start };
+      }
+    }
+
+    const status = failed?.status ?? 'failed';
+    console.error(`❌ Job ${job.id} (${job.location}) ${status === 'dead' ? 'is dead' : 'failed'}:`, message);
+    return { ...base, status, error: message, next_attempt_at: status === 'failed' ? failed?.next_attempt_at : undefined, duration_ms: Date.now() - start };
+  }
+}
+
+// Claims and runs due jobs with at most getCronConcurrency() in flight, until the
+// queue is empty or the start budget is spent
+export async function runReportJobs(locations: Location[], options: ReportJobRunOptions & { startedAt: number }): Promise<ReportJobResult[]> {
+  const { claimNextReportJob } = await import('./db');
+  const bySlug = new Map(locations.map(l => [l.slug, l]));
+  const results: ReportJobResult[] = [];
+
+  const worker = async () => {
+    while (Date.now() - options.startedAt < CRON_START_BUDGET_MS) {
+      const job = await claimNextReportJob(JOB_LEASE_SECONDS);
+      if (!job) return;
+      results.push(await executeReportJob(job, bySlug, options));
+    }
+  };
+
+  await Promise.all(Array.from({ length: getCronConcurrency() }, worker));
+  return results;
+}
+
+// Requeues a failed or dead job with fresh attempts and runs it straight away
+export async function replayReportJob(id: number, locations: Location[], options: ReportJobRunOptions): Promise<ReportJobResult | null> {
+  const { claimNextReportJob, requeueReportJob } = await import('./db');
+  if (!(await requeueReportJob(id))) return null;
+
+  const job = await claimNextReportJob(JOB_LEASE_SECONDS, id);
+  // Another runner picked it up between the requeue and the claim
+  if (!job) return null;
+
+  return executeReportJob(job, new Map(locations.map(l => [l.slug, l])), options);
+}
@@ -0,0 +1,47 @@
+import type { Location } from './locations';
+
+// The cron runs hourly; each location gets a report at its own local report hours.
+// Every slot becomes one job in report-jobs.ts, so anything a run doesn't reach
+// (time budget, Bun failure) is picked up by the next.
+
+// Matches the original fixed schedule of 5 AM, 9 AM, 1 PM and 4 PM Eastern
+export const DEFAULT_REPORT_HOURS = [5, 9, 13, 16];
+
+// No new job is started after this point in a run. The slowest Bun call
+// (BUN_CRON_TIMEOUT_MS) then ends by 45s, leaving the rest of the 60s function
+// limit for alerts
+export const CRON_START_BUDGET_MS = 15000;
+export const BUN_CRON_TIMEOUT_MS = 30000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getCronConcurrency(): number {
+  const configured = Number(process.env.REPORT_CRON_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : 3;
+}
+
+function localDateHour(at: Date, timezone: string): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, hour: Number(get('hour')) };
+}
+
+// Most recent scheduled slot at or before `now`, as local "YYYY-MM-DDTHH", e.g. "2026-10-18T05"
+export function getDueSlot(location: Location, now: Date = new Date()): string {
+  const hours = (location.reportHours ?? DEFAULT_REPORT_HOURS).slice().sort((a, b) => a - b);
+  const pad = (h: number) => String(h).padStart(2, '0');
+  const { date, hour } = localDateHour(now, location.timezone);
+
+  const earlierToday = hours.filter(h => h <= hour);
+  if (earlierToday.length > 0) return `${date}T${pad(earlierToday[earlierToday.length - 1])}`;
+
+  const yesterday = localDateHour(new Date(now.getTime() - DAY_MS), location.timezone).date;
+  return `${yesterday}T${pad(hours[hours.length - 1])}`;
+}
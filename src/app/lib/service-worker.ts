@@ -0,0 +1,56 @@
+// Browser-side helpers for public/sw.js
+
+// Must match REPORT_CACHE in public/sw.js
+export const OFFLINE_REPORT_CACHE = 'surf-lab-reports-v1';
+
+let registration: Promise<ServiceWorkerRegistration> | null = null;
+
+export function isServiceWorkerSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+// Registers once per page load and resolves when the worker is active
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration> {
+  if (!registration) {
+    registration = navigator.serviceWorker.register('/sw.js').then(() => navigator.serviceWorker.ready);
+  }
+  return registration;
+}
+
+// Tells the worker which spots to keep an offline copy of
+export async function postSavedLocations(slugs: string[]): Promise<void> {
+  const { active } = await registerServiceWorker();
+  active?.postMessage({ type: 'saved-locations', slugs });
+}
+
+// Asks the worker to refresh saved reports once connectivity is back
+export async function requestReportSync(): Promise<void> {
+  const ready = await registerServiceWorker();
+  const sync = (ready as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync;
+  await sync?.register('surf-data-sync');
+}
+
+export interface OfflineReport<T> {
+  data: T;
+  cachedAt: string | null;
+}
+
+// Reads the worker's copy straight from the Cache API, for when the fetch
+// never reached the worker (first load before it took control, or no worker at all)
+export async function readOfflineReport<T>(slug: string): Promise<OfflineReport<T> | null> {
+  if (typeof caches === 'undefined') return null;
+  const cache = await caches.open(OFFLINE_REPORT_CACHE);
+  const cached = await cache.match(`/api/surf-report?location=${encodeURIComponent(slug)}`);
+  if (!cached) return null;
+  return { data: await cached.json(), cachedAt: cached.headers.get('X-Offline-Cached-At') };
+}
+
+// Stores a report fetched outside the worker (the streaming endpoint isn't intercepted)
+// under the same key and stamp the worker uses, so it's there for the next offline open
+export async function writeOfflineReport(slug: string, report: unknown): Promise<void> {
+  if (typeof caches === 'undefined') return;
+  const cache = await caches.open(OFFLINE_REPORT_CACHE);
+  await cache.put(`/api/surf-report?location=${encodeURIComponent(slug)}`, new Response(JSON.stringify(report), {
+    headers: { 'Content-Type': 'application/json', 'X-Offline-Cached-At': new Date().toISOString() },
+  }));
+}
@@ -0,0 +1,108 @@
+import type { Location } from './locations';
+import { getHourlyForecast, type ForecastHour } from './forecast';
+import { getLimitingFactor, type LimitingFactor } from './surfability';
+
+export interface SessionWindow {
+  start: string;
+  end: string;
+  label: string;
+  hours: number;
+  peak_score: number;
+  peak_time: string;
+  average_score: number;
+  limiting_factor: LimitingFactor;
+  // e.g. "Sat 6 AM–9 AM (peaks 78/100, held back by wind)"
+  description: string;
+}
+
+export interface SessionWindowOptions {
+  count?: number;
+  minScore?: number;
+  horizonHours?: number;
+}
+
+export const SESSION_WINDOW_HORIZON_HOURS = 72;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// e.g. "Sat 6 AM–9 AM" in the spot's own timezone
+function formatWindowLabel(start: Date, end: Date, timezone: string): string {
+  const day = start.toLocaleDateString('en-US', { weekday: 'short', timeZone: timezone });
+  const time = (d: Date) => d.toLocaleTimeString('en-US', { hour: 'numeric', hour12: true, timeZone: timezone });
+  return `${day} ${time(start)}–${time(end)}`;
+}
+
+// Groups consecutive daylight hours scoring at or above minScore into windows,
+// then returns the best `count` of them ranked by peak score, longest first on ties.
+export function findSessionWindows(
+  hours: ForecastHour[],
+  location: Location,
+  { count = 3, minScore = 45, horizonHours = SESSION_WINDOW_HORIZON_HOURS }: SessionWindowOptions = {}
+): SessionWindow[] {
+  const horizon = Date.now() + horizonHours * HOUR_MS;
+  const runs: ForecastHour[][] = [];
+  let current: ForecastHour[] = [];
+
+  for (const hour of hours) {
+    const at = new Date(hour.time).getTime();
+    if (at >= horizon) break;
+
+    const previous = current[current.length - 1];
+    const contiguous = previous && at - new Date(previous.time).getTime() === HOUR_MS;
+
+    if (hour.daylight && hour.score >= minScore) {
+      if (!contiguous && current.length > 0) {
+        runs.push(current);
+        current = [];
+      }
+      current.push(hour);
+    } else if (current.length > 0) {
+      runs.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) runs.push(current);
+
+  const windows = runs.map((run): SessionWindow => {
+    const peak = run.reduce((best, h) => (h.score > best.score ? h : best));
+    const start = new Date(run[0].time);
+    const end = new Date(new Date(run[run.length - 1].time).getTime() + HOUR_MS);
+    const average = run.reduce((sum, h) => sum + h.score, 0) / run.length;
+
+    const label = formatWindowLabel(start, end, location.timezone);
+    const limitingFactor = getLimitingFactor(peak.score_breakdown);
+
+    return {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      label,
+      hours: run.length,
+      peak_score: peak.score,
+      peak_time: peak.time,
+      average_score: Math.round(average),
+      limiting_factor: limitingFactor,
+      description: `${label} (peaks ${peak.score}/100, held back by ${limitingFactor})`,
+    };
+  });
+
+  return windows
+    .sort((a, b) => b.peak_score - a.peak_score || b.hours - a.hours)
+    .slice(0, count);
+}
+
+export async function getSessionWindows(location: Location, options: SessionWindowOptions = {}): Promise<SessionWindow[]> {
+  const horizonHours = options.horizonHours ?? SESSION_WINDOW_HORIZON_HOURS;
+  const hours = await getHourlyForecast(location, Math.ceil(horizonHours / 24));
+  return findSessionWindows(hours, location, options);
+}
+
+// One-line timing advice built from the best windows, for the report's timing_advice.
+// The Bun service gets this already formatted rather than building its own.
+export function describeSessionWindows(windows: SessionWindow[]): string {
+  if (windows.length === 0) {
+    return 'No surfable daylight window in the next three days — check back as the forecast updates';
+  }
+  const [best, ...rest] = windows;
+  const alsoStr = rest.length > 0 ? `; also ${rest.map(w => w.label).join(', ')}` : '';
+  return `Best window: ${best.description}${alsoStr}`;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { SEED_LOCATIONS } from './locations';
+import { calculateSurfability, isOffshoreWind, offshoreBearing, type SurfData } from './surfability';
+
+// Otherwise-good conditions, so only the component under test moves the score
+function conditions(overrides: Partial<SurfData>): SurfData {
+  return {
+    waveHeight: 3,
+    wavePeriod: 10,
+    swellDirection: 0,
+    windDirection: 0,
+    windSpeed: 12,
+    tide: 'Mid Rising',
+    tideHeight: 1,
+    ...overrides,
+  };
+}
+
+describe.each(SEED_LOCATIONS)('calculateSurfability for $slug (coast faces $coastFacingDeg°)', location => {
+  const facing = location.coastFacingDeg;
+  const offshore = offshoreBearing(facing);
+
+  it('gives offshore wind the full wind score', () => {
+    const { breakdown } = calculateSurfability(conditions({ swellDirection: facing, windDirection: offshore }), facing);
+    expect(isOffshoreWind(offshore, facing)).toBe(true);
+    expect(breakdown.wind).toBe(20);
+  });
+
+  it('gives offshore wind from either side of straight offshore the full wind score', () => {
+    for (const windDirection of [(offshore + 30) % 360, (offshore + 330) % 360]) {
+      const { breakdown } = calculateSurfability(conditions({ swellDirection: facing, windDirection }), facing);
+      expect(breakdown.wind).toBe(20);
+    }
+  });
+
+  it('gives onshore wind nothing', () => {
+    const { breakdown } = calculateSurfability(conditions({ swellDirection: facing, windDirection: facing }), facing);
+    expect(isOffshoreWind(facing, facing)).toBe(false);
+    expect(breakdown.wind).toBe(0);
+  });
+
+  it('scores swell arriving square to the beach as in the window', () => {
+    for (const swellDirection of [facing, (facing + 40) % 360, (facing + 320) % 360]) {
+      const { breakdown } = calculateSurfability(conditions({ swellDirection, windDirection: offshore }), facing);
+      expect(breakdown.swellAngle).toBe(20);
+    }
+  });
+
+  it('gives oblique swell partial credit', () => {
+    const { breakdown } = calculateSurfability(conditions({ swellDirection: (facing + 55) % 360, windDirection: offshore }), facing);
+    expect(breakdown.swellAngle).toBe(10);
+  });
+
+  it('scores swell from behind the coast as out of the window', () => {
+    for (const swellDirection of [(facing + 180) % 360, (facing + 90) % 360, (facing + 270) % 360]) {
+      const { breakdown } = calculateSurfability(conditions({ swellDirection, windDirection: offshore }), facing);
+      expect(breakdown.swellAngle).toBe(0);
+    }
+  });
+
+  it('rates in-window swell with offshore wind above out-of-window swell with onshore wind', () => {
+    const good = calculateSurfability(conditions({ swellDirection: facing, windDirection: offshore }), facing);
+    const bad = calculateSurfability(conditions({ swellDirection: (facing + 180) % 360, windDirection: facing }), facing);
+    // Every component at its maximum adds up to 105, capped to the 100 the score is shown out of
+    expect(good.score).toBe(100);
+    expect(good.surfable).toBe(true);
+    expect(bad.score).toBe(105 - 40);
+  });
+});
+
+describe('calculateSurfability for west- and north-facing coasts', () => {
+  it('treats an east wind as offshore at Huntington Beach and a west wind as onshore', () => {
+    const huntington = SEED_LOCATIONS.find(l => l.slug === 'huntington-beach')!;
+    expect(calculateSurfability(conditions({ swellDirection: 225, windDirection: 45 }), huntington.coastFacingDeg).breakdown.wind).toBe(20);
+    expect(calculateSurfability(conditions({ swellDirection: 225, windDirection: 250 }), huntington.coastFacingDeg).breakdown.wind).toBe(0);
+  });
+
+  it('scores a south swell at Huntington Beach and an east swell as out of the window', () => {
+    const huntington = SEED_LOCATIONS.find(l => l.slug === 'huntington-beach')!;
+    expect(calculateSurfability(conditions({ swellDirection: 190 }), huntington.coastFacingDeg).breakdown.swellAngle).toBe(20);
+    expect(calculateSurfability(conditions({ swellDirection: 90 }), huntington.coastFacingDeg).breakdown.swellAngle).toBe(0);
+  });
+
+  it('handles the North Shore wrapping through north', () => {
+    const northShore = SEED_LOCATIONS.find(l => l.slug === 'oahu')!;
+    // South winds are offshore; NW and NE swell are both in the window across 0°
+    expect(calculateSurfability(conditions({ swellDirection: 330, windDirection: 170 }), northShore.coastFacingDeg).breakdown.wind).toBe(20);
+    expect(calculateSurfability(conditions({ swellDirection: 330, windDirection: 10 }), northShore.coastFacingDeg).breakdown.wind).toBe(0);
+    expect(calculateSurfability(conditions({ swellDirection: 330 }), northShore.coastFacingDeg).breakdown.swellAngle).toBe(20);
+    expect(calculateSurfability(conditions({ swellDirection: 30 }), northShore.coastFacingDeg).breakdown.swellAngle).toBe(20);
+    expect(calculateSurfability(conditions({ swellDirection: 180 }), northShore.coastFacingDeg).breakdown.swellAngle).toBe(0);
+  });
+
+  it('credits light wind from any direction', () => {
+    for (const location of SEED_LOCATIONS) {
+      const { breakdown } = calculateSurfability(conditions({ windDirection: location.coastFacingDeg, windSpeed: 3 }), location.coastFacingDeg);
+      expect(breakdown.wind).toBe(15);
+    }
+  });
+});
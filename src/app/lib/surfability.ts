@@ -0,0 +1,224 @@
+import type { SwellComponent, SwellComponents } from '../types/surf-report';
+
+// One partition of the sea state: height in feet, period in seconds, direction in degrees
+export interface WaveComponent {
+  height: number;
+  period: number;
+  direction: number;
+}
+
+export interface WaveComponents {
+  primarySwell: WaveComponent | null;
+  secondarySwell: WaveComponent | null;
+  windWave: WaveComponent | null;
+}
+
+export interface SurfData {
+  waveHeight: number;
+  wavePeriod: number;
+  swellDirection: number;
+  windDirection: number;
+  windSpeed: number;
+  tide: string;
+  tideHeight?: number;
+  components?: WaveComponents;
+}
+
+export function degreesToCompass(degrees: number): string {
+  if (degrees < 0 || degrees > 360) {
+    degrees = ((degrees % 360) + 360) % 360;
+  }
+  const directions = [
+    'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+    'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'
+  ];
+  const index = Math.round(degrees / 22.5) % 16;
+  return directions[index];
+}
+
+// Smallest angle between two bearings, 0–180
+export function angularDifference(a: number, b: number): number {
+  let diff = Math.abs((((a - b) % 360) + 360) % 360);
+  if (diff > 180) diff = 360 - diff;
+  return diff;
+}
+
+// Direction the wind must come FROM to blow straight offshore
+export function offshoreBearing(coastFacingDeg: number): number {
+  return (coastFacingDeg + 180) % 360;
+}
+
+// Generic: is wind offshore for this coast orientation?
+export function isOffshoreWind(windDirection: number, coastFacingDeg: number): boolean {
+  return angularDifference(windDirection, offshoreBearing(coastFacingDeg)) <= 90;
+}
+
+export function getWindDescription(windDirection: number, windSpeed: number, coastFacingDeg: number): string {
+  const compass = degreesToCompass(windDirection);
+  const offshore = isOffshoreWind(windDirection, coastFacingDeg);
+  const windType = offshore ? 'offshore' : 'onshore';
+
+  let quality: string;
+  if (offshore) {
+    if (windSpeed < 5) quality = 'glassy conditions';
+    else if (windSpeed < 15) quality = 'clean offshore conditions';
+    else if (windSpeed < 25) quality = 'strong offshore - may be difficult to paddle out';
+    else quality = 'very strong offshore - challenging conditions';
+  } else {
+    if (windSpeed < 5) quality = 'light onshore - fairly clean';
+    else if (windSpeed < 10) quality = 'moderate onshore - some chop';
+    else if (windSpeed < 20) quality = 'strong onshore - choppy conditions';
+    else quality = 'very strong onshore - blown out';
+  }
+
+  return `${compass} ${windType} (${quality})`;
+}
+
+// Is this swell direction favorable for the coast orientation?
+export function getSwellDirectionDescription(degrees: number, coastFacingDeg: number): string {
+  const compass = degreesToCompass(degrees);
+  const diff = angularDifference(degrees, coastFacingDeg);
+
+  let assessment: string;
+  if (diff <= 45) assessment = 'direct, favorable swell angle';
+  else if (diff <= 90) assessment = 'oblique but workable swell angle';
+  else if (diff <= 135) assessment = 'cross-swell — limited power';
+  else assessment = 'backside swell — unfavorable';
+
+  return `${compass} (${assessment})`;
+}
+
+function formatWaveComponent(component: WaveComponent | null, coastFacingDeg: number): SwellComponent | null {
+  if (!component) return null;
+  return {
+    height_ft: Math.round(component.height * 10) / 10,
+    period_sec: Math.round(component.period * 10) / 10,
+    direction_deg: Math.round(component.direction),
+    direction_compass: degreesToCompass(component.direction),
+    direction_description: getSwellDirectionDescription(component.direction, coastFacingDeg),
+  };
+}
+
+export function formatWaveComponents(components: WaveComponents, coastFacingDeg: number): SwellComponents {
+  return {
+    primary_swell: formatWaveComponent(components.primarySwell, coastFacingDeg),
+    secondary_swell: formatWaveComponent(components.secondarySwell, coastFacingDeg),
+    wind_wave: formatWaveComponent(components.windWave, coastFacingDeg),
+  };
+}
+
+// The period that actually describes what breaks: the groundswell's, unless local
+// wind chop is carrying more height than the swell underneath it.
+export function getDominantPeriod(data: SurfData): number {
+  const c = data.components;
+  if (!c?.primarySwell) return data.wavePeriod;
+  if (c.windWave && c.windWave.height > c.primarySwell.height) return c.windWave.period;
+  return c.primarySwell.period;
+}
+
+// Surf rating phrases
+const surfRatings = {
+  excellent: ["Epic", "Firing", "Going Off", "Pumping", "Primo", "Cranking"],
+  good: ["Fun", "Solid", "Decent", "Surfable", "Worth It", "Rideable"],
+  marginal: ["Marginal", "Questionable", "Sketchy", "Iffy", "Meh", "Barely"],
+  poor: ["Flat", "Blown Out", "Junk", "Trash", "Hopeless", "Netflix Day"]
+};
+
+function getRandomRating(category: keyof typeof surfRatings): string {
+  const options = surfRatings[category];
+  return options[Math.floor(Math.random() * options.length)];
+}
+
+// Swell scores best when it arrives square to the beach (within 45° of the
+// direction the coast faces); oblique swell up to 60° off still gets some credit.
+function scoreSwellAngle(swellDirection: number, coastFacingDeg: number): number {
+  const diff = angularDifference(swellDirection, coastFacingDeg);
+  if (diff <= 45) return 20;
+  if (diff <= 60) return 10;
+  return 0;
+}
+
+// Light wind is always fine; otherwise only a wind within 45° of straight
+// offshore for this coast earns the offshore bonus.
+function scoreWind(windDirection: number, windSpeed: number, coastFacingDeg: number): number {
+  if (windSpeed < 5) return 15;
+  if (angularDifference(windDirection, offshoreBearing(coastFacingDeg)) <= 45) {
+    return windSpeed <= 15 ? 20 : 10;
+  }
+  if (windSpeed < 10) return 10;
+  return 0;
+}
+
+export interface ScoreBreakdown {
+  size: number;
+  period: number;
+  swellAngle: number;
+  wind: number;
+  tide: number;
+}
+
+// Maximum points each component can contribute
+export const SCORE_COMPONENT_MAX: ScoreBreakdown = {
+  size: 25,
+  period: 25,
+  swellAngle: 20,
+  wind: 20,
+  tide: 15,
+};
+
+export function calculateSurfability(data: SurfData, coastFacingDeg: number) {
+  const breakdown: ScoreBreakdown = { size: 0, period: 0, swellAngle: 0, wind: 0, tide: 0 };
+
+  if (data.waveHeight >= 2 && data.waveHeight <= 8) breakdown.size = 25;
+  else if (data.waveHeight >= 1.5 && data.waveHeight < 2) breakdown.size = 15;
+
+  const period = getDominantPeriod(data);
+  if (period >= 10) breakdown.period = 25;
+  else if (period >= 7) breakdown.period = 20;
+  else if (period >= 5) breakdown.period = 10;
+
+  // A secondary swell at a better angle than the primary can still light up the beach
+  const swellAngles = [data.components?.primarySwell?.direction ?? data.swellDirection];
+  if (data.components?.secondarySwell) swellAngles.push(data.components.secondarySwell.direction);
+  breakdown.swellAngle = Math.max(...swellAngles.map(dir => scoreSwellAngle(dir, coastFacingDeg)));
+  breakdown.wind = scoreWind(data.windDirection, data.windSpeed, coastFacingDeg);
+
+  // calculateTideState reports mid tide as 'Mid Rising' / 'Mid Falling' whenever
+  // both the next high and low are known, so match the prefix rather than 'Mid' alone
+  if (data.tide.startsWith('Mid') || data.tide === 'Rising' || data.tide === 'Falling') breakdown.tide += 10;
+
+  if (data.tideHeight !== undefined) {
+    if (data.tideHeight >= 0.5 && data.tideHeight <= 2.5) breakdown.tide += 5;
+  }
+
+  // The components can add up to 105; the score is shown and compared out of 100 everywhere
+  const score = Math.min(100, breakdown.size + breakdown.period + breakdown.swellAngle + breakdown.wind + breakdown.tide);
+
+  let rating: string;
+  let funRating: string;
+
+  if (score >= 80) {
+    rating = 'Excellent';
+    funRating = getRandomRating('excellent');
+  } else if (score >= 65) {
+    rating = 'Good';
+    funRating = getRandomRating('good');
+  } else if (score >= 45) {
+    rating = 'Marginal';
+    funRating = getRandomRating('marginal');
+  } else {
+    rating = 'Poor';
+    funRating = getRandomRating('poor');
+  }
+
+  return { score, surfable: score >= 45, rating, funRating, breakdown };
+}
+
+export type LimitingFactor = 'wind' | 'tide' | 'size';
+
+// Which of wind, tide or wave size is costing the most points, relative to what it could score
+export function getLimitingFactor(breakdown: ScoreBreakdown): LimitingFactor {
+  const shortfall = (key: LimitingFactor) => 1 - breakdown[key] / SCORE_COMPONENT_MAX[key];
+  const factors: LimitingFactor[] = ['wind', 'tide', 'size'];
+  return factors.reduce((worst, factor) => (shortfall(factor) > shortfall(worst) ? factor : worst));
+}
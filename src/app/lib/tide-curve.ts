@@ -0,0 +1,151 @@
+import type { Location } from './locations';
+import { calculateTideState, fetchTidePredictions, fetchWaterLevels, findSurroundingTideEvents } from './tides';
+
+export interface TideCurvePoint {
+  time: string;
+  height_ft: number;
+}
+
+export interface TideExtreme extends TideCurvePoint {
+  type: 'high' | 'low';
+}
+
+export interface TideCurve {
+  interval: '6' | 'h';
+  step_minutes: number;
+  now: {
+    time: string;
+    predicted_height_ft: number | null;
+    observed_height_ft: number | null;
+    state: string | null;
+  };
+  curve: TideCurvePoint[];
+  extremes: TideExtreme[];
+  observed: TideCurvePoint[];
+  observedError?: string;
+}
+
+export interface TideCurveOptions {
+  from: Date;
+  to: Date;
+  interval?: '6' | 'h';
+  stepMinutes?: number;
+}
+
+export const MAX_TIDE_CURVE_DAYS = 7;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+interface Sample {
+  time: number;
+  height: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Catmull-Rom spline through the NOAA samples, evaluated every stepMinutes.
+// Passes through every prediction exactly, so highs and lows stay where NOAA puts them.
+export function interpolateTideCurve(samples: Sample[], from: number, to: number, stepMinutes: number): TideCurvePoint[] {
+  const points: TideCurvePoint[] = [];
+  if (samples.length < 2) return points;
+
+  let i = 0;
+  for (let t = from; t <= to; t += stepMinutes * MINUTE_MS) {
+    while (i < samples.length - 2 && samples[i + 1].time < t) i++;
+
+    const p1 = samples[i];
+    const p2 = samples[i + 1];
+    if (t < p1.time || t > p2.time) continue;
+
+    const p0 = samples[i - 1] ?? p1;
+    const p3 = samples[i + 2] ?? p2;
+    const u = (t - p1.time) / (p2.time - p1.time);
+    const u2 = u * u;
+    const u3 = u2 * u;
+
+    const height = 0.5 * (
+      2 * p1.height +
+      (-p0.height + p2.height) * u +
+      (2 * p0.height - 5 * p1.height + 4 * p2.height - p3.height) * u2 +
+      (-p0.height + 3 * p1.height - 3 * p2.height + p3.height) * u3
+    );
+
+    points.push({ time: new Date(t).toISOString(), height_ft: round(height) });
+  }
+
+  return points;
+}
+
+export async function getTideCurve(location: Location, { from, to, interval, stepMinutes }: TideCurveOptions): Promise<TideCurve> {
+  const rangeMs = to.getTime() - from.getTime();
+  // Six-minute predictions are plenty smooth for short charts; hourly keeps multi-day payloads small
+  const resolvedInterval = interval ?? (rangeMs <= 2 * DAY_MS ? '6' : 'h');
+  const resolvedStep = stepMinutes ?? (resolvedInterval === '6' ? 6 : 30);
+  const now = new Date();
+
+  // Pad by a day either side so the spline has neighbours at the edges and
+  // calculateTideState can always find the surrounding highs and lows
+  const paddedFrom = new Date(from.getTime() - DAY_MS);
+  const paddedTo = new Date(to.getTime() + DAY_MS);
+
+  const [predictions, hilo] = await Promise.all([
+    fetchTidePredictions(location.noaaStationId, paddedFrom, paddedTo, resolvedInterval),
+    fetchTidePredictions(location.noaaStationId, paddedFrom, paddedTo, 'hilo'),
+  ]);
+
+  // Observed levels only exist up to now, and not every station has a live gauge
+  let observed: TideCurvePoint[] = [];
+  let observedError: string | undefined;
+  if (from < now) {
+    try {
+      const levels = await fetchWaterLevels(location.noaaStationId, from, to < now ? to : now);
+      observed = levels
+        .filter(l => {
+          const t = new Date(l.t);
+          return t >= from && t <= to;
+        })
+        .map(l => ({ time: l.t, height_ft: round(parseFloat(l.v)) }));
+    } catch (error) {
+      observedError = error instanceof Error ? error.message : 'Observed water levels unavailable';
+    }
+  }
+
+  const samples: Sample[] = predictions.map(p => ({ time: new Date(p.t).getTime(), height: parseFloat(p.v) }));
+  const curve = interpolateTideCurve(samples, from.getTime(), to.getTime(), resolvedStep);
+
+  const extremes: TideExtreme[] = hilo
+    .filter(p => {
+      const t = new Date(p.t);
+      return t >= from && t <= to;
+    })
+    .map(p => ({ time: p.t, height_ft: round(parseFloat(p.v)), type: p.type === 'H' ? 'high' : 'low' }));
+
+  let predictedNow: number | null = null;
+  let state: string | null = null;
+  if (now >= from && now <= to) {
+    const [point] = interpolateTideCurve(samples, now.getTime(), now.getTime(), resolvedStep);
+    if (point) {
+      predictedNow = point.height_ft;
+      const { nextHigh, nextLow, previousHigh, previousLow } = findSurroundingTideEvents(hilo, now);
+      state = calculateTideState(predictedNow, nextHigh, nextLow, previousHigh, previousLow, now);
+    }
+  }
+
+  return {
+    interval: resolvedInterval,
+    step_minutes: resolvedStep,
+    now: {
+      time: now.toISOString(),
+      predicted_height_ft: predictedNow,
+      observed_height_ft: observed.length > 0 ? observed[observed.length - 1].height_ft : null,
+      state,
+    },
+    curve,
+    extremes,
+    observed,
+    ...(observedError && { observedError }),
+  };
+}
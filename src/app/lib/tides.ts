@@ -0,0 +1,177 @@
+export interface TideEvent {
+  time: string;
+  height: number;
+  timestamp: string;
+}
+
+export interface TidePrediction {
+  t: string;       // ISO timestamp (UTC)
+  v: string;       // raw NOAA height, feet above MLLW
+  type?: 'H' | 'L';
+}
+
+interface ParsedPrediction {
+  t: string;
+  type?: 'H' | 'L';
+  date: Date;
+  height: number;
+}
+
+const NOAA_BASE_URL = 'https://api.tidesandcurrents.noaa.gov/api/prod/datagetter';
+
+// NOAA reads begin/end dates in whatever time_zone the request asks for,
+// so GMT requests need the UTC calendar date
+export function formatNoaaDate(date: Date, utc = false): string {
+  const year = utc ? date.getUTCFullYear() : date.getFullYear();
+  const month = String((utc ? date.getUTCMonth() : date.getMonth()) + 1).padStart(2, '0');
+  const day = String(utc ? date.getUTCDate() : date.getDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
+}
+
+// NOAA GMT timestamps come back as "YYYY-MM-DD HH:mm" with no offset
+export function parseNoaaGmt(t: string): Date {
+  return new Date(`${t.replace(' ', 'T')}Z`);
+}
+
+// Fetch tide predictions in GMT and normalise timestamps to ISO strings.
+// interval: 'hilo' for highs/lows, 'h' for hourly, '6' for six-minute.
+export async function fetchTidePredictions(
+  stationId: string,
+  begin: Date,
+  end: Date,
+  interval: 'hilo' | 'h' | '6',
+  timeoutMs = 8000
+): Promise<TidePrediction[]> {
+  const url = `${NOAA_BASE_URL}?begin_date=${formatNoaaDate(begin, true)}&end_date=${formatNoaaDate(end, true)}&station=${stationId}&product=predictions&datum=MLLW&time_zone=gmt&interval=${interval}&units=english&application=SurfLab&format=json`;
+
+  const res = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) throw new Error(`NOAA predictions returned ${res.status}`);
+
+  return parseNoaaPredictions(await res.json(), `No ${interval} tide predictions for station ${stationId}`);
+}
+
+// Raw NOAA predictions body (GMT) to ISO-timestamped predictions
+export function parseNoaaPredictions(data: any, emptyMessage = 'No tide predictions'): TidePrediction[] {
+  if (!data?.predictions?.length) {
+    throw new Error(data?.error?.message ?? emptyMessage);
+  }
+  return data.predictions.map((p: TidePrediction) => ({ ...p, t: parseNoaaGmt(p.t).toISOString() }));
+}
+
+export interface WaterLevel {
+  t: string;  // ISO timestamp (UTC)
+  v: string;  // observed height, feet above MLLW
+}
+
+// Observed six-minute water levels over a date range, in GMT.
+// Stations without a live gauge return an error body rather than a non-200.
+export async function fetchWaterLevels(stationId: string, begin: Date, end: Date, timeoutMs = 8000): Promise<WaterLevel[]> {
+  const url = `${NOAA_BASE_URL}?begin_date=${formatNoaaDate(begin, true)}&end_date=${formatNoaaDate(end, true)}&station=${stationId}&product=water_level&datum=MLLW&time_zone=gmt&units=english&application=SurfLab&format=json`;
+
+  const res = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) throw new Error(`NOAA water levels returned ${res.status}`);
+
+  return parseNoaaWaterLevels(await res.json(), `No observed water levels for station ${stationId}`);
+}
+
+// Most recent observed reading, for stations with a live gauge
+export async function fetchLatestWaterLevel(stationId: string, timeoutMs = 8000): Promise<WaterLevel> {
+  const url = `${NOAA_BASE_URL}?date=latest&station=${stationId}&product=water_level&datum=MLLW&time_zone=gmt&units=english&application=SurfLab&format=json`;
+
+  const res = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) throw new Error(`NOAA water level returned ${res.status}`);
+
+  const levels = parseNoaaWaterLevels(await res.json(), `No live water level for station ${stationId}`);
+  return levels[levels.length - 1];
+}
+
+// Raw NOAA water_level body (GMT) to ISO-timestamped readings, dropping gauge gaps
+export function parseNoaaWaterLevels(data: any, emptyMessage = 'No observed water levels'): WaterLevel[] {
+  const levels: WaterLevel[] = (data?.data ?? [])
+    .filter((d: WaterLevel) => d.v !== '')
+    .map((d: WaterLevel) => ({ t: parseNoaaGmt(d.t).toISOString(), v: d.v }));
+  if (levels.length === 0) {
+    throw new Error(data?.error?.message ?? emptyMessage);
+  }
+  return levels;
+}
+
+// Nearest high/low on either side of `at`, in the shape calculateTideState expects
+export function findSurroundingTideEvents(
+  predictions: Array<{ t: string; v: string; type?: string }>,
+  at: Date
+) {
+  let nextHigh: TideEvent | null = null;
+  let nextLow: TideEvent | null = null;
+  let previousHigh: TideEvent | null = null;
+  let previousLow: TideEvent | null = null;
+
+  const parsed: ParsedPrediction[] = predictions.map(p => ({
+    t: p.t,
+    type: p.type as ParsedPrediction['type'],
+    date: new Date(p.t),
+    height: parseFloat(p.v),
+  }));
+
+  const past = parsed.filter(p => p.date < at);
+  const future = parsed.filter(p => p.date >= at);
+
+  for (let i = past.length - 1; i >= 0; i--) {
+    const p = past[i];
+    if (p.type === 'H' && !previousHigh) {
+      previousHigh = { time: p.t, height: p.height, timestamp: p.t };
+    } else if (p.type === 'L' && !previousLow) {
+      previousLow = { time: p.t, height: p.height, timestamp: p.t };
+    }
+    if (previousHigh && previousLow) break;
+  }
+
+  for (const p of future) {
+    if (p.type === 'H' && !nextHigh) {
+      nextHigh = { time: p.t, height: p.height, timestamp: p.t };
+    } else if (p.type === 'L' && !nextLow) {
+      nextLow = { time: p.t, height: p.height, timestamp: p.t };
+    }
+    if (nextHigh && nextLow) break;
+  }
+
+  return { nextHigh, nextLow, previousHigh, previousLow };
+}
+
+export function calculateTideState(
+  currentHeight: number,
+  nextHigh: TideEvent | null,
+  nextLow: TideEvent | null,
+  previousHigh: TideEvent | null,
+  previousLow: TideEvent | null,
+  now: Date = new Date()
+): string {
+  const nextHighTime = nextHigh ? new Date(nextHigh.timestamp) : null;
+  const nextLowTime = nextLow ? new Date(nextLow.timestamp) : null;
+  const timeToNextHigh = nextHighTime ? nextHighTime.getTime() - now.getTime() : Infinity;
+  const timeToNextLow = nextLowTime ? nextLowTime.getTime() - now.getTime() : Infinity;
+
+  if (nextHighTime && nextLowTime) {
+    if (timeToNextHigh < timeToNextLow) {
+      const range = nextHigh && previousLow ? Math.abs(nextHigh.height - previousLow.height) : 3;
+      const midPoint = nextHigh && previousLow ? (nextHigh.height + previousLow.height) / 2 : currentHeight;
+      if (Math.abs(currentHeight - midPoint) < range * 0.25) return 'Mid Rising';
+      if (currentHeight < midPoint) return 'Low Rising';
+      return 'High Rising';
+    } else {
+      const range = previousHigh && nextLow ? Math.abs(previousHigh.height - nextLow.height) : 3;
+      const midPoint = previousHigh && nextLow ? (previousHigh.height + nextLow.height) / 2 : currentHeight;
+      if (Math.abs(currentHeight - midPoint) < range * 0.25) return 'Mid Falling';
+      if (currentHeight > midPoint) return 'High Falling';
+      return 'Low Falling';
+    }
+  }
+
+  if (nextHighTime && timeToNextHigh < 6 * 60 * 60 * 1000) {
+    return currentHeight > 1.5 ? 'High Rising' : 'Rising';
+  } else if (nextLowTime && timeToNextLow < 6 * 60 * 60 * 1000) {
+    return currentHeight < 1.0 ? 'Low Falling' : 'Falling';
+  }
+
+  return currentHeight > 2.0 ? 'High' : currentHeight < 1.0 ? 'Low' : 'Mid';
+}
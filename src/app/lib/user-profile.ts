@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// Anonymous, cookie-identified profiles: the id is minted on first save and
+// kept in an httpOnly cookie, so there is nothing to sign in to
+export const PROFILE_COOKIE = 'surf_profile';
+export const PROFILE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+export const userProfileSchema = z.object({
+  skill_level: z.enum(['beginner', 'intermediate', 'advanced']),
+  preferred_board: z.enum(['foamie', 'longboard', 'funboard', 'fish', 'shortboard']),
+  wetsuit_tolerance: z.enum(['boardshorts', '3/2', '4/3', '5/4']),
+  favorite_locations: z.array(z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/)).max(20),
+}).strict();
+
+export type UserProfileInput = z.infer<typeof userProfileSchema>;
+
+export const DEFAULT_PROFILE: UserProfileInput = {
+  skill_level: 'intermediate',
+  preferred_board: 'funboard',
+  wetsuit_tolerance: '3/2',
+  favorite_locations: [],
+};
+
+export function isProfileId(value: string | undefined): value is string {
+  return !!value && /^[0-9a-f-]{36}$/.test(value);
+}
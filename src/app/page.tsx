@@ -1,11 +1,38 @@
 import { Metadata } from 'next';
 import { LocationGate } from './components/LocationGate';
+import { cookies } from 'next/headers';
+import { listLocationSummaries } from '@/lib/location-registry';
+import { SEED_LOCATIONS, type LocationSummary } from '@/lib/locations';
+import { isProfileId, PROFILE_COOKIE } from '@/lib/user-profile';
+
+// Favourite spots from the visitor's profile, if they have one
+async function getFavoriteSlugs(): Promise<string[]> {
+  const id = cookies().get(PROFILE_COOKIE)?.value;
+  if (!isProfileId(id)) return [];
+  try {
+    const { getUserProfile } = await import('@/lib/db');
+    return (await getUserProfile(id))?.favorite_locations ?? [];
+  } catch (_) {
+    return [];
+  }
+}
+
+// The built-in spots keep the picker usable while the location registry can't be read
+async function getLocationSummaries(): Promise<LocationSummary[]> {
+  try {
+    return await listLocationSummaries();
+  } catch (error) {
+    console.error('❌ Location registry unavailable, listing the built-in locations:', error);
+    return SEED_LOCATIONS.map(({ slug, name }) => ({ slug, name }));
+  }
+}
 
 export const metadata: Metadata = {
   title: 'Can I Surf Today?',
   description: 'Real-time AI-powered surf reports for US surf spots. St. Augustine, Rockaway Beach, Huntington Beach, and more — updated 4 times daily.',
 };
 
-export default function RootPage() {
-  return <LocationGate />;
+export default async function RootPage() {
+  const [locations, favorites] = await Promise.all([getLocationSummaries(), getFavoriteSlugs()]);
+  return <LocationGate locations={locations} favorites={favorites} />;
 }
@@ -0,0 +1,38 @@
+// Shape of PushSubscription.toJSON() from the browser
+export interface PushSubscriptionData {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface AlertRule {
+  id: string;
+  location: string;
+  min_score: number;
+  max_wind_kts: number | null;
+  min_period_sec: number | null;
+  daylight_only: boolean;
+  // push_subscriptions.endpoint this rule delivers to
+  endpoint: string;
+  // True while conditions keep matching after a notification, so one swell sends one alert
+  event_active: boolean;
+  last_notified_at: string | null;
+  created_at: string;
+}
+
+export interface AlertRuleDelivery extends AlertRule {
+  subscription: PushSubscriptionData;
+}
+
+// What the service worker receives in the push event
+export interface AlertNotificationPayload {
+  title: string;
+  body: string;
+  slug: string;
+  score: number;
+  wave_height_ft: number;
+  url: string;
+}
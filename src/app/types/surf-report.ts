@@ -1,3 +1,18 @@
+export interface SwellComponent {
+  height_ft: number;
+  period_sec: number;
+  direction_deg: number;
+  direction_compass: string;
+  direction_description?: string;
+}
+
+// Partitioned sea state — null when the marine model doesn't resolve that component
+export interface SwellComponents {
+  primary_swell: SwellComponent | null;
+  secondary_swell: SwellComponent | null;
+  wind_wave: SwellComponent | null;
+}
+
 export interface SurfReport {
   id: string;
   timestamp: string;
@@ -11,6 +26,8 @@ export interface SurfReport {
     tide_state: string;
     weather_description: string;
     surfability_score: number;
+    // Open-Meteo WMO code; missing on reports saved before it was recorded
+    weather_code?: number;
     
     // 🆕 Added compass direction fields
     swell_direction_deg?: number;
@@ -27,6 +44,8 @@ export interface SurfReport {
     water_temperature_f?: number;
     air_temperature_c?: number;
     air_temperature_f?: number;
+
+    swell_components?: SwellComponents;
   };
   recommendations: {
     board_type: string;
@@ -36,4 +55,29 @@ export interface SurfReport {
     timing_advice?: string;
   };
   cached_until: string;
-}
\ No newline at end of file
+  generation_meta?: GenerationMeta;
+}
+
+// Written by the Bun report service; prompt_version is null for template fallback reports
+export interface GenerationMeta {
+  backend: string;
+  model: string;
+  report_length: number;
+  word_count: number;
+  paragraphs: number;
+  prompt_version: string | null;
+  prompt_arm?: 'stable' | 'candidate' | 'requested' | null;
+  failed_backends?: Array<{ provider: string; model: string; error: string }>;
+  // Issues found in each rejected draft; null when the model was never reached
+  validation?: {
+    attempts: number;
+    rejected_issues: Array<Array<{ rule: string; message: string }>>;
+  } | null;
+}
+
+// Events on /api/surf-report/stream, one JSON object per line. `partial` carries the
+// report text written so far; exactly one `report` or `error` ends the stream.
+export type ReportStreamEvent =
+  | { type: 'partial'; text: string }
+  | { type: 'report'; report: SurfReport }
+  | { type: 'error'; error: string };
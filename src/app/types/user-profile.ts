@@ -0,0 +1,22 @@
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export type BoardType = 'foamie' | 'longboard' | 'funboard' | 'fish' | 'shortboard';
+
+// Thickest suit the surfer is willing to wear
+export type WetsuitTolerance = 'boardshorts' | '3/2' | '4/3' | '5/4';
+
+export interface UserProfile {
+  id: string;
+  skill_level: SkillLevel;
+  preferred_board: BoardType;
+  wetsuit_tolerance: WetsuitTolerance;
+  favorite_locations: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PersonalVerdict {
+  verdict: 'go' | 'maybe' | 'skip';
+  headline: string;
+  reasons: string[];
+}